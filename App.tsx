@@ -1,28 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
 import UploadView from './components/UploadView';
 import Dashboard from './components/Dashboard';
-import EditorView from './components/Editor/EditorView';
+import EditorView, { EditorTarget } from './components/Editor/EditorView';
 import { HomeIcon, ArchiveIcon, TrashIcon, AlertCircleIcon, LoaderIcon, SunIcon, MoonIcon } from './components/Icons';
-import { AppView, DocumentData, ProcessingOptions, FileSystemItem, FolderData, PageData } from './types';
-import { reconstructCleanText } from './utils/reconstruction';
-import { getAllItems, saveItem, deleteItem, nukeDB } from './utils/storage';
-import { processPageWithGemini } from './services/geminiService';
+import { AppView, DocumentData, ProcessingOptions, ItemSummary, FolderData, PageData, DocumentEditorChanges } from './types';
+import { getAllItems, getItem, updateItem, saveItem, deleteItems, nukeDB, controlProcessing, ProcessingAction, reprocessPages, ReprocessRequest, uploadFile, subscribeToProgress, ProcessingEvent, SearchHit, restoreRevision } from './utils/storage';
+import BulkExportDialog from './components/BulkExportDialog';
+import ImportArchiveDialog from './components/ImportArchiveDialog';
+import TrashDialog from './components/TrashDialog';
 import { MOCK_ID_PREFIX } from './constants';
-// @ts-ignore
-import * as pdfjsLib from 'pdfjs-dist';
-// @ts-ignore
-import JSZip from 'jszip';
-
-// Configure PDF.js worker
-const PDF_WORKER_URL = 'https://aistudiocdn.com/pdfjs-dist@5.4.449/build/pdf.worker.min.mjs';
-pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_URL;
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
-  const [items, setItems] = useState<FileSystemItem[]>([]);
+  const [items, setItems] = useState<ItemSummary[]>([]);
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  // Dashboard rows ticked for bulk actions; only items of the current folder
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [activeDocId, setActiveDocId] = useState<string | null>(null);
+  // Full document (pages and blocks) for the editor; the listing only holds summaries
+  const [activeDoc, setActiveDoc] = useState<DocumentData | null>(null);
+  // Page and block to reveal when the editor opens (e.g. a search result)
+  const [editorTarget, setEditorTarget] = useState<EditorTarget | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ fileIndex: number; fileCount: number; fraction: number } | null>(null);
   
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -37,6 +37,9 @@ const App: React.FC = () => {
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [deleteIncludeFolders, setDeleteIncludeFolders] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [isBulkExportOpen, setIsBulkExportOpen] = useState(false);
+  const [isImportArchiveOpen, setIsImportArchiveOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
 
   // --- DATA LOADING ---
 
@@ -70,57 +73,31 @@ const App: React.FC = () => {
     setIsDarkMode(!isDarkMode);
   };
 
-  // --- Helpers ---
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
-  const convertPdfToImages = async (file: File): Promise<{data: string, mimeType: string}[]> => {
-    const arrayBuffer = await file.arrayBuffer();
-    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-    const pdf = await loadingTask.promise;
-    const images: {data: string, mimeType: string}[] = [];
-
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const viewport = page.getViewport({ scale: 1.5 }); 
-      const canvas = document.createElement('canvas');
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) continue;
-      await page.render({ canvasContext: ctx, viewport } as any).promise;
-      
-      const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-      const base64 = dataUrl.split(',')[1];
-      images.push({ data: base64, mimeType: 'image/jpeg' });
-    }
-    return images;
-  };
-
   // --- PROCESSING LOGIC (FRONTEND) ---
 
-  // Polling for background processing updates
+  // Live background processing updates: only the affected document (and page) changes
   useEffect(() => {
-    const processingItems = items.filter(i => i.type === 'file' && (i as DocumentData).status === 'processing');
-    
-    if (processingItems.length > 0) {
-      const timer = setTimeout(async () => {
-        await loadItems();
-      }, 3000); // Poll every 3 seconds
+    const applyEvent = (event: ProcessingEvent) => {
+      if (event.type === 'page') {
+        setActiveDoc(prev => prev && prev.id === event.docId
+          ? { ...prev, pages: prev.pages.map((p, idx) => idx === event.pageIndex ? event.page : p) }
+          : prev);
+        return;
+      }
 
-      return () => clearTimeout(timer);
-    }
-  }, [items]);
+      const progress = { status: event.status, processedPages: event.processedPages, totalPages: event.totalPages };
+      setItems(prev => prev.map(item => item.id === event.docId && item.type === 'file' ? { ...item, ...progress } : item));
+      // The open document is saved as a whole, so it must not keep a stale status
+      setActiveDoc(prev => prev && prev.id === event.docId ? { ...prev, ...progress } : prev);
+
+      // Events sent before an upload response arrived were not applied; resync once processing ends
+      if (event.type === 'document' && (event.status === 'ready' || event.status === 'error')) {
+        loadItems();
+      }
+    };
+
+    return subscribeToProgress(applyEvent, loadItems);
+  }, []);
 
   // --- Actions ---
 
@@ -141,10 +118,8 @@ const App: React.FC = () => {
     setItemToDelete(itemId);
   };
 
-  const executeDeleteItem = async () => {
-    if (!itemToDelete) return;
-    const itemId = itemToDelete;
-
+  // Moves items (folders with their contents) to the trash in a single request
+  const deleteToTrash = async (itemIds: string[]) => {
     // Use local state 'items' instead of fetching again to be faster
     // Recursive find IDs to delete (folder contents)
     const getChildrenIds = (parentId: string): string[] => {
@@ -153,12 +128,10 @@ const App: React.FC = () => {
         .flatMap(child => [child.id, ...getChildrenIds(child.id)]);
     };
     
-    const idsToDelete = [itemId, ...getChildrenIds(itemId)];
+    const idsToDelete = itemIds.flatMap(itemId => [itemId, ...getChildrenIds(itemId)]);
     
     try {
-      for (const id of idsToDelete) {
-        await deleteItem(id);
-      }
+      await deleteItems(itemIds);
       
       // Update local state
       setItems(prev => prev.filter(i => !idsToDelete.includes(i.id)));
@@ -166,27 +139,46 @@ const App: React.FC = () => {
       if (activeDocId && idsToDelete.includes(activeDocId)) {
         setCurrentView(AppView.DASHBOARD);
         setActiveDocId(null);
+        setActiveDoc(null);
       }
     } catch (e) {
       console.error("Failed to delete items", e);
       alert("An error occurred while deleting. Please try again.");
       loadItems(); // Re-sync with DB just in case
-    } finally {
-      setItemToDelete(null);
     }
   };
 
+  const executeDeleteItem = async () => {
+    if (!itemToDelete) return;
+    await deleteToTrash([itemToDelete]);
+    setItemToDelete(null);
+  };
+
+  const handleDeleteSelection = async () => {
+    if (!window.confirm(`Move ${visibleSelection.length} selected item${visibleSelection.length === 1 ? '' : 's'} to the trash?`)) return;
+    await deleteToTrash(visibleSelection);
+    setSelectedIds([]);
+  };
+
   const handleMoveItem = async (itemId: string, targetFolderId: string | null) => {
     if (itemId === targetFolderId) return;
     
-    const item = items.find(i => i.id === itemId);
-    if (item) {
-      const updatedItem = { ...item, parentId: targetFolderId };
-      await saveItem(updatedItem);
+    if (items.some(i => i.id === itemId)) {
+      const updatedItem = await updateItem(itemId, { parentId: targetFolderId });
       setItems(prev => prev.map(i => i.id === itemId ? updatedItem : i));
     }
   };
 
+  const handleControlProcessing = async (docId: string, action: ProcessingAction) => {
+    try {
+      await controlProcessing(docId, action);
+    } catch (e) {
+      console.error(e);
+      alert(`Could not ${action} processing.`);
+    }
+    await loadItems();
+  };
+
   const handleDeleteAll = async () => {
     await nukeDB(!deleteIncludeFolders);
     await loadItems(); // Reload from DB (should be empty or only folders)
@@ -195,78 +187,29 @@ const App: React.FC = () => {
     if (currentView === AppView.EDITOR) {
       setCurrentView(AppView.DASHBOARD);
       setActiveDocId(null);
+      setActiveDoc(null);
     }
   };
 
-  const handleExportAll = async () => {
-    const zip = new JSZip();
-    const docs = items.filter(i => i.type === 'file' && (i as DocumentData).status === 'ready') as DocumentData[];
-    
-    if (docs.length === 0) {
-      alert("No ready documents to export.");
-      return;
-    }
-
-    docs.forEach(doc => {
-      const content = doc.savedText || reconstructCleanText(doc.pages);
-      zip.file(`${doc.name.replace(/\.[^/.]+$/, "")}.txt`, content);
-    });
-
-    const content = await zip.generateAsync({ type: "blob" });
-    const url = URL.createObjectURL(content);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "all_notes.zip";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-  };
-
   const handleFileSelect = async (fileList: FileList, options: ProcessingOptions) => {
     const files = Array.from(fileList);
     setIsUploading(true);
     
     try {
-      const newDocs: DocumentData[] = [];
-
-      for (const file of files) {
+      for (const [index, file] of files.entries()) {
         const docId = `${MOCK_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2,5)}`;
-        const isPDF = file.type === 'application/pdf';
-        let images: {data: string, mimeType: string}[] = [];
-
-        if (isPDF) {
-          images = await convertPdfToImages(file);
-        } else {
-          const base64 = await fileToBase64(file);
-          images = [{ data: base64, mimeType: file.type }];
-        }
-
-        const newDoc: DocumentData = {
-          id: docId,
-          name: file.name,
-          type: 'file',
-          parentId: currentFolderId,
-          createdAt: Date.now(),
-          uploadDate: Date.now(),
-          status: 'processing', // Initially processing
-          modelUsed: options.model,
-          totalPages: images.length,
-          processedPages: 0,
-          pages: images.map((img, idx) => ({
-            pageNumber: idx + 1,
-            imageUrl: `data:${img.mimeType};base64,${img.data}`,
-            blocks: [],
-            status: 'pending'
-          }))
-        };
-        
-        // Save initial state to DB and start background processing
-        const savedDoc = await saveItem(newDoc, true) as DocumentData;
-        newDocs.push(savedDoc);
+        setUploadProgress({ fileIndex: index, fileCount: files.length, fraction: 0 });
+
+        // The server stores the original file, creates the document and starts background processing
+        await uploadFile(
+          file,
+          { id: docId, parentId: currentFolderId, model: options.model },
+          fraction => setUploadProgress({ fileIndex: index, fileCount: files.length, fraction })
+        );
       }
       
-      // Update UI with new documents immediately
-      setItems(prev => [...prev, ...newDocs]);
+      // Show the new documents right away (the upload responses are full documents, the listing holds summaries)
+      await loadItems();
       setCurrentView(AppView.DASHBOARD);
 
     } catch (error: any) {
@@ -274,29 +217,80 @@ const App: React.FC = () => {
       alert(`Failed to upload: ${error.message}`);
     } finally {
       setIsUploading(false);
+      setUploadProgress(null);
     }
   };
 
-  const handleOpenDocument = (docId: string) => {
-    setActiveDocId(docId);
-    setCurrentView(AppView.EDITOR);
+  const handleOpenDocument = async (docId: string, target: EditorTarget | null = null) => {
+    try {
+      const doc = await getItem(docId) as DocumentData;
+      setEditorTarget(target);
+      setActiveDoc(doc);
+      setActiveDocId(docId);
+      setCurrentView(AppView.EDITOR);
+    } catch (e) {
+      console.error(e);
+      alert("Could not open the document. Please try again.");
+    }
+  };
+
+  const handleOpenSearchHit = (hit: SearchHit) => {
+    handleOpenDocument(hit.docId, hit.pageIndex !== null ? { pageIndex: hit.pageIndex, blockId: hit.blockId } : null);
+  };
+
+  const handleSaveDocument = async (docId: string, changes: DocumentEditorChanges, note?: string) => {
+    if (activeDoc && activeDoc.id === docId) {
+       const updatedDoc = { ...activeDoc, ...changes };
+       try {
+         await saveItem(updatedDoc, false, { note });
+       } catch (e) {
+         console.error(e);
+         alert("Could not save the document. If it is still being processed, wait until processing finishes and save again.");
+         throw e;
+       }
+       setActiveDoc(updatedDoc);
+    }
   };
 
-  const handleSaveDocument = async (docId: string, newText: string) => {
-    const item = items.find(i => i.id === docId);
-    if (item) {
-       const updatedItem = { ...item, savedText: newText };
-       await saveItem(updatedItem);
-       setItems(prev => prev.map(i => i.id === docId ? updatedItem : i));
+  const handleRestoreRevision = async (docId: string, revisionId: string) => {
+    try {
+      const restoredDoc = await restoreRevision(docId, revisionId);
+      setActiveDoc(restoredDoc);
+      return restoredDoc;
+    } catch (e) {
+      console.error(e);
+      alert("Could not restore the revision. Please try again.");
+      return null;
     }
   };
 
+  // The document goes back to processing, so return to the dashboard where progress is shown
+  const handleReprocessPages = async (docId: string, request: ReprocessRequest) => {
+    try {
+      await reprocessPages(docId, request);
+      // The response is the full document; the listing holds summaries
+      await loadItems();
+      setCurrentView(AppView.DASHBOARD);
+      setActiveDocId(null);
+      setActiveDoc(null);
+    } catch (e) {
+      console.error(e);
+      alert("Could not start reprocessing. Please try again.");
+    }
+  };
+
+  const handleNavigateFolder = (folderId: string | null) => {
+    setCurrentFolderId(folderId);
+    setSelectedIds([]);
+  };
+
   const goToHome = () => {
     setCurrentView(AppView.DASHBOARD);
-    setCurrentFolderId(null);
+    handleNavigateFolder(null);
   };
 
-  const activeDoc = items.find(d => d.id === activeDocId) as DocumentData | undefined;
+  // Deleted or moved items drop out of the selection
+  const visibleSelection = selectedIds.filter(id => items.some(i => i.id === id && i.parentId === currentFolderId));
 
   return (
     <div className="h-screen w-screen flex flex-col bg-slate-50 dark:bg-slate-900 text-slate-900 dark:text-slate-100 transition-colors duration-200">
@@ -329,16 +323,25 @@ const App: React.FC = () => {
           <div className="h-6 w-px bg-slate-300 dark:bg-slate-600 mx-1"></div>
 
           <button 
-            onClick={handleExportAll}
+            onClick={() => setIsBulkExportOpen(true)}
             className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700/50 rounded-lg transition-colors flex items-center space-x-2"
-            title="Export All Notes"
+            title="Export Documents"
           >
             <ArchiveIcon className="w-5 h-5" />
-            <span className="font-medium hidden sm:inline">Export All</span>
+            <span className="font-medium hidden sm:inline">Export</span>
           </button>
           
           <div className="h-6 w-px bg-slate-300 dark:bg-slate-600 mx-1"></div>
 
+          <button 
+            onClick={() => setIsTrashOpen(true)}
+            className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700/50 rounded-lg transition-colors flex items-center space-x-2"
+            title="Deleted Items"
+          >
+            <TrashIcon className="w-5 h-5" />
+            <span className="font-medium hidden sm:inline">Trash</span>
+          </button>
+
           {/* Delete All Button */}
           <button 
             onClick={() => setIsDeleteModalOpen(true)}
@@ -375,17 +378,27 @@ const App: React.FC = () => {
             onOpenDocument={handleOpenDocument}
             onNewUpload={() => setCurrentView(AppView.UPLOAD)}
             onCreateFolder={handleCreateFolder}
-            onNavigateFolder={setCurrentFolderId}
+            onNavigateFolder={handleNavigateFolder}
+            selectedIds={visibleSelection}
+            onSelectionChange={setSelectedIds}
+            onExportSelection={() => setIsBulkExportOpen(true)}
+            onImportArchive={() => setIsImportArchiveOpen(true)}
+            onDeleteSelection={handleDeleteSelection}
             onDeleteItem={handleRequestDelete}
             onMoveItem={handleMoveItem}
+            onControlProcessing={handleControlProcessing}
+            onOpenSearchHit={handleOpenSearchHit}
           />
         )}
 
         {currentView === AppView.EDITOR && activeDoc && (
           <EditorView 
             doc={activeDoc} 
+            target={editorTarget}
             onBack={() => setCurrentView(AppView.DASHBOARD)}
             onSave={handleSaveDocument}
+            onReprocess={handleReprocessPages}
+            onRestoreRevision={handleRestoreRevision}
           />
         )}
       </main>
@@ -395,10 +408,47 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-white/80 dark:bg-slate-900/80 backdrop-blur-sm">
           <LoaderIcon className="w-12 h-12 text-blue-600 animate-spin mb-4" />
           <h2 className="text-xl font-bold text-slate-800 dark:text-white">Processing Document...</h2>
-          <p className="text-slate-500 dark:text-slate-400">Preparing and uploading your file</p>
+          <p className="text-slate-500 dark:text-slate-400">
+            {uploadProgress
+              ? `Uploading ${uploadProgress.fileCount > 1 ? `file ${uploadProgress.fileIndex + 1} of ${uploadProgress.fileCount}: ` : ''}${Math.round(uploadProgress.fraction * 100)}%`
+              : 'Preparing and uploading your file'}
+          </p>
+          {uploadProgress && (
+            <div className="w-64 bg-slate-200 dark:bg-slate-700 rounded-full h-2 mt-4">
+              <div
+                className="bg-blue-600 dark:bg-blue-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${Math.round(uploadProgress.fraction * 100)}%` }}
+              ></div>
+            </div>
+          )}
         </div>
       )}
 
+      {isBulkExportOpen && (
+        <BulkExportDialog
+          items={items}
+          currentFolderId={currentFolderId}
+          selectedIds={visibleSelection}
+          onClose={() => setIsBulkExportOpen(false)}
+        />
+      )}
+
+      {isImportArchiveOpen && (
+        <ImportArchiveDialog
+          targetFolderId={currentFolderId}
+          targetFolderName={items.find(i => i.id === currentFolderId)?.name || 'Home'}
+          onImported={loadItems}
+          onClose={() => setIsImportArchiveOpen(false)}
+        />
+      )}
+
+      {isTrashOpen && (
+        <TrashDialog
+          onRestored={loadItems}
+          onClose={() => setIsTrashOpen(false)}
+        />
+      )}
+
       {/* Single Item Delete Confirmation Modal */}
       {itemToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -412,7 +462,8 @@ const App: React.FC = () => {
             
             <p className="text-slate-600 dark:text-slate-300 mb-6">
               Are you sure you want to delete <strong>{items.find(i => i.id === itemToDelete)?.name}</strong>?
-              {items.find(i => i.id === itemToDelete)?.type === 'folder' && " This will permanently delete all documents inside it."}
+              {items.find(i => i.id === itemToDelete)?.type === 'folder' && " All documents inside it are deleted too."}
+              {" It can be restored from the Trash."}
             </p>
 
             <div className="flex justify-end space-x-3">
@@ -445,7 +496,7 @@ const App: React.FC = () => {
             </div>
             
             <p className="text-slate-600 dark:text-slate-300 mb-6">
-              Are you sure you want to delete all documents? This action cannot be undone.
+              Are you sure you want to delete all documents? They are moved to the Trash, where they can be restored until it is emptied.
             </p>
 
             <div className="mb-6 flex items-center space-x-3 p-3 bg-slate-50 dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 cursor-pointer" onClick={() => setDeleteIncludeFolders(!deleteIncludeFolders)}>
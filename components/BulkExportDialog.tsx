@@ -0,0 +1,205 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BlockLabel, ItemSummary } from '../types';
+import { buildBulkExport, collectDocuments, BulkExportFormat, BulkExportProgress, BulkExportScope } from '../utils/bulkExport';
+import { archiveUrl } from '../utils/storage';
+import { LoaderIcon } from './Icons';
+
+interface BulkExportDialogProps {
+  items: ItemSummary[];
+  currentFolderId: string | null;
+  selectedIds: string[];
+  onClose: () => void;
+}
+
+// 'archive' is built by the server: everything as stored, for moving a library to another server
+type ExportFormat = BulkExportFormat | 'archive';
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'md', label: 'Markdown (.md)' },
+  { value: 'html', label: 'HTML (.html)' },
+  { value: 'epub', label: 'EPUB (.epub)' },
+  { value: 'docx', label: 'Word (.docx)' },
+  { value: 'json', label: 'JSON (text and blocks)' },
+  { value: 'archive', label: 'DocuClean archive (.zip, for importing)' }
+];
+
+const LABEL_OPTIONS = [
+  BlockLabel.TITLE,
+  BlockLabel.MAIN_TEXT,
+  BlockLabel.HEADER,
+  BlockLabel.FOOTER,
+  BlockLabel.FOOTNOTE,
+  BlockLabel.CAPTION
+];
+
+/**
+ * Exports many documents at once into a single zip: which documents, in which
+ * format, which block labels, and whether the folder tree is kept.
+ */
+const BulkExportDialog: React.FC<BulkExportDialogProps> = ({ items, currentFolderId, selectedIds, onClose }) => {
+  const [scope, setScope] = useState<BulkExportScope>(selectedIds.length > 0 ? 'selection' : currentFolderId ? 'folder' : 'all');
+  const [format, setFormat] = useState<ExportFormat>('md');
+  const [labels, setLabels] = useState<BlockLabel[]>([BlockLabel.TITLE, BlockLabel.MAIN_TEXT]);
+  const [mirrorFolders, setMirrorFolders] = useState(true);
+  const [progress, setProgress] = useState<BulkExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const documentCount = useMemo(
+    () => collectDocuments(items, scope, currentFolderId, selectedIds).length,
+    [items, scope, currentFolderId, selectedIds]
+  );
+  const currentFolderName = items.find(i => i.id === currentFolderId)?.name || 'Home';
+
+  const toggleLabel = (label: BlockLabel) => {
+    setLabels(prev => prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]);
+  };
+
+  const downloadArchive = () => {
+    const ids = scope === 'selection' ? selectedIds : scope === 'folder' && currentFolderId ? [currentFolderId] : [];
+    const a = document.createElement("a");
+    a.href = archiveUrl(ids);
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (format === 'archive') return downloadArchive();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: documentCount });
+    try {
+      const result = await buildBulkExport(
+        items,
+        { scope, format, labels, mirrorFolders, currentFolderId, selectedIds },
+        setProgress,
+        controller.signal
+      );
+      const url = URL.createObjectURL(result.zip);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = scope === 'folder' ? `${currentFolderName}.zip` : scope === 'selection' ? "selected_documents.zip" : "all_documents.zip";
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      if (result.failed.length > 0) {
+        alert(`Exported ${result.exported} documents. These could not be exported:\n${result.failed.join('\n')}`);
+      }
+      onClose();
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error("Bulk export failed", e);
+        alert("Could not build the export. Please try again.");
+      }
+      setProgress(null);
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const isExporting = progress !== null;
+  const isArchive = format === 'archive';
+  const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+  const selectClass = "w-full p-2 mb-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-lg w-full p-6 border border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Export Documents</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          Ready documents are exported with their corrections into a single zip file.
+        </p>
+
+        <label className={labelClass}>Documents</label>
+        <select value={scope} disabled={isExporting} onChange={(e) => setScope(e.target.value as BulkExportScope)} className={selectClass}>
+          <option value="folder">Current folder ({currentFolderName}) and its subfolders</option>
+          <option value="selection" disabled={selectedIds.length === 0}>Selected items ({selectedIds.length})</option>
+          <option value="all">All documents</option>
+        </select>
+
+        <label className={labelClass}>Format</label>
+        <select value={format} disabled={isExporting} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+          {FORMAT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        {isArchive ? (
+          <p className="text-sm text-slate-600 dark:text-slate-300 mb-6">
+            Includes folders, page images, corrections, saved text and revision history of every document, whatever its status.
+          </p>
+        ) : (
+          <>
+            <label className={labelClass}>Include</label>
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              {LABEL_OPTIONS.map(label => (
+                <label key={label} className="flex items-center space-x-2 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={labels.includes(label)}
+                    disabled={isExporting}
+                    onChange={() => toggleLabel(label)}
+                    className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+                  />
+                  <span className="text-sm text-slate-700 dark:text-slate-300 capitalize">{label.toLowerCase().replace('_', ' ')}</span>
+                </label>
+              ))}
+            </div>
+
+            <label className="flex items-center space-x-3 mb-6 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={mirrorFolders}
+                disabled={isExporting}
+                onChange={(e) => setMirrorFolders(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+              />
+              <span className="text-sm text-slate-700 dark:text-slate-300">Keep the folder structure inside the zip</span>
+            </label>
+          </>
+        )}
+
+        {progress && (
+          <div className="mb-6">
+            <div className="flex justify-between text-xs mb-1 text-slate-600 dark:text-slate-400">
+              <span className="truncate pr-4">{progress.currentName || 'Compressing…'}</span>
+              <span>{progress.done}/{progress.total}</span>
+            </div>
+            <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
+              <div
+                className="bg-blue-600 dark:bg-blue-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-slate-500 dark:text-slate-400">
+            {!isArchive && `${documentCount} document${documentCount === 1 ? '' : 's'}`}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => isExporting ? abortRef.current?.abort() : onClose()}
+              className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              disabled={isExporting || (isArchive ? scope === 'selection' && selectedIds.length === 0 : documentCount === 0 || labels.length === 0)}
+              onClick={handleExport}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50 flex items-center"
+            >
+              {isExporting && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkExportDialog;
@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
-import { DocumentData, FileSystemItem, FolderData } from '../types';
-import { FileIcon, FolderIcon, LoaderIcon, CheckCircleIcon, AlertCircleIcon, TrashIcon, PlusIcon, ChevronRightIcon, HomeIcon } from './Icons';
+import { DocumentData, DocumentSummary, ItemSummary, FolderData } from '../types';
+import { ProcessingAction, SearchHit } from '../utils/storage';
+import SearchBar from './SearchBar';
+import { FileIcon, FolderIcon, LoaderIcon, CheckCircleIcon, AlertCircleIcon, TrashIcon, PlusIcon, ChevronRightIcon, HomeIcon, ArchiveIcon } from './Icons';
 
 interface DashboardProps {
-  items: FileSystemItem[]; // All items (files and folders)
+  items: ItemSummary[]; // All items (files and folders), summaries without pages
   currentFolderId: string | null;
   onOpenDocument: (docId: string) => void;
   onNewUpload: () => void;
@@ -11,6 +13,13 @@ interface DashboardProps {
   onNavigateFolder: (folderId: string | null) => void;
   onDeleteItem: (itemId: string) => void;
   onMoveItem: (itemId: string, targetFolderId: string | null) => void;
+  onControlProcessing: (docId: string, action: ProcessingAction) => void;
+  onOpenSearchHit: (hit: SearchHit) => void;
+  selectedIds: string[]; // Ticked items of the current folder
+  onSelectionChange: (ids: string[]) => void;
+  onExportSelection: () => void;
+  onImportArchive: () => void;
+  onDeleteSelection: () => void;
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ 
@@ -21,7 +30,14 @@ const Dashboard: React.FC<DashboardProps> = ({
   onCreateFolder,
   onNavigateFolder,
   onDeleteItem,
-  onMoveItem
+  onMoveItem,
+  onControlProcessing,
+  onOpenSearchHit,
+  selectedIds,
+  onSelectionChange,
+  onExportSelection,
+  onImportArchive,
+  onDeleteSelection
 }) => {
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
   const [newFolderName, setNewFolderName] = useState("");
@@ -30,7 +46,24 @@ const Dashboard: React.FC<DashboardProps> = ({
   // Filter items for current view
   const visibleItems = items.filter(item => item.parentId === currentFolderId);
   const folders = visibleItems.filter(item => item.type === 'folder') as FolderData[];
-  const documents = visibleItems.filter(item => item.type === 'file') as DocumentData[];
+  const documents = visibleItems.filter(item => item.type === 'file') as DocumentSummary[];
+
+  const isAllSelected = visibleItems.length > 0 && visibleItems.every(item => selectedIds.includes(item.id));
+
+  const toggleSelected = (id: string) => {
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(i => i !== id) : [...selectedIds, id]);
+  };
+
+  const selectionCheckbox = (id: string) => (
+    <td className="pl-6 py-4 w-10" onClick={(e) => e.stopPropagation()}>
+      <input
+        type="checkbox"
+        checked={selectedIds.includes(id)}
+        onChange={() => toggleSelected(id)}
+        className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700 cursor-pointer"
+      />
+    </td>
+  );
 
   // Get current path for breadcrumbs
   const getBreadcrumbs = () => {
@@ -114,6 +147,16 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
 
         <div className="flex space-x-3">
+          <div className="w-72 lg:w-96">
+            <SearchBar onOpenHit={onOpenSearchHit} />
+          </div>
+          <button
+            onClick={onImportArchive}
+            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center shadow-sm"
+            title="Import a DocuClean archive"
+          >
+            <ArchiveIcon className="w-4 h-4 mr-2" /> Import
+          </button>
           <button
             onClick={() => setIsCreatingFolder(true)}
             className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors flex items-center shadow-sm"
@@ -147,6 +190,20 @@ const Dashboard: React.FC<DashboardProps> = ({
         </div>
       )}
 
+      {/* Selection Actions */}
+      {selectedIds.length > 0 && (
+        <div className="mb-4 px-4 py-2 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800 flex items-center justify-between transition-colors">
+          <span className="text-sm font-medium text-blue-800 dark:text-blue-300">
+            {selectedIds.length} selected
+          </span>
+          <div className="flex items-center space-x-4">
+            <button onClick={onExportSelection} className="text-sm text-blue-600 dark:text-blue-400 font-medium hover:underline">Export Selected</button>
+            <button onClick={onDeleteSelection} className="text-sm text-red-600 dark:text-red-400 font-medium hover:underline">Delete Selected</button>
+            <button onClick={() => onSelectionChange([])} className="text-sm text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200">Clear</button>
+          </div>
+        </div>
+      )}
+
       {visibleItems.length === 0 && !isCreatingFolder ? (
         <div className="text-center py-20 bg-white dark:bg-slate-800 rounded-xl border border-dashed border-slate-300 dark:border-slate-700 transition-colors">
           <p className="text-slate-500 dark:text-slate-400">This folder is empty.</p>
@@ -161,6 +218,15 @@ const Dashboard: React.FC<DashboardProps> = ({
           <table className="w-full text-left">
             <thead className="bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
               <tr>
+                <th className="pl-6 py-4 w-10">
+                  <input
+                    type="checkbox"
+                    checked={isAllSelected}
+                    onChange={() => onSelectionChange(isAllSelected ? [] : visibleItems.map(item => item.id))}
+                    className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700 cursor-pointer"
+                    title="Select all"
+                  />
+                </th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">Name</th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">Date</th>
                 <th className="px-6 py-4 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase">Status / Progress</th>
@@ -179,6 +245,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                   className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors group cursor-pointer"
                   onClick={() => onNavigateFolder(folder.id)}
                 >
+                  {selectionCheckbox(folder.id)}
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-3">
                       <div className="p-2 bg-blue-50 dark:bg-blue-900/30 rounded-lg text-blue-500 dark:text-blue-400">
@@ -215,6 +282,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                   onDragStart={(e) => handleDragStart(e, doc.id)}
                   className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
                 >
+                  {selectionCheckbox(doc.id)}
                   <td className="px-6 py-4">
                     <div className="flex items-center space-x-3">
                       <div className="p-2 bg-slate-100 dark:bg-slate-700 rounded-lg text-slate-500 dark:text-slate-400">
@@ -243,6 +311,22 @@ const Dashboard: React.FC<DashboardProps> = ({
                           Open
                         </button>
                       )}
+                      {(doc.status === 'processing' || doc.status === 'paused') && (
+                        <>
+                          <button
+                            onClick={() => onControlProcessing(doc.id, doc.status === 'paused' ? 'resume' : 'pause')}
+                            className="text-slate-600 dark:text-slate-300 font-medium text-sm hover:underline px-2 relative z-10"
+                          >
+                            {doc.status === 'paused' ? 'Resume' : 'Pause'}
+                          </button>
+                          <button
+                            onClick={() => onControlProcessing(doc.id, 'cancel')}
+                            className="text-slate-600 dark:text-slate-300 font-medium text-sm hover:text-red-600 dark:hover:text-red-400 hover:underline px-2 relative z-10"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      )}
                       <button 
                         type="button"
                         onClick={(e) => { 
@@ -283,18 +367,19 @@ const StatusWithProgress = ({ status, processed, total }: { status: DocumentData
     );
   }
 
-  // Processing state with bar
+  // Processing (or paused) state with bar
   const percentage = total > 0 ? Math.round((processed / total) * 100) : 0;
+  const isPaused = status === 'paused';
   
   return (
     <div className="w-full max-w-[140px]">
       <div className="flex justify-between text-xs mb-1 text-slate-600 dark:text-slate-400">
-        <span>Processing</span>
+        <span>{isPaused ? 'Paused' : 'Processing'}</span>
         <span>{processed}/{total}</span>
       </div>
       <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2">
         <div 
-          className="bg-blue-600 dark:bg-blue-500 h-2 rounded-full transition-all duration-300" 
+          className={`${isPaused ? 'bg-amber-500' : 'bg-blue-600 dark:bg-blue-500'} h-2 rounded-full transition-all duration-300`} 
           style={{ width: `${percentage}%` }}
         ></div>
       </div>
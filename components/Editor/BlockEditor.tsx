@@ -0,0 +1,123 @@
+import React, { useEffect, useRef } from 'react';
+import { PageData, BlockLabel, BlockEdits, BlockEdit, ReadingOrder } from '../../types';
+import { applyBlockEdits, sortBlocksByReadingOrder } from '../../utils/reconstruction';
+
+interface BlockEditorProps {
+  page: PageData;
+  edits: BlockEdits;
+  includeLabels: BlockLabel[];
+  readingOrder?: ReadingOrder;
+  selectedBlockId?: string | null;
+  onSelectBlock?: (blockId: string) => void;
+  onEditBlock: (blockId: string, edit: Omit<BlockEdit, 'updatedAt'> | null) => void;
+}
+
+const EDITABLE_LABELS = [
+  BlockLabel.TITLE,
+  BlockLabel.MAIN_TEXT,
+  BlockLabel.HEADER,
+  BlockLabel.FOOTER,
+  BlockLabel.FOOTNOTE,
+  BlockLabel.CAPTION,
+  BlockLabel.UNKNOWN
+];
+
+/**
+ * Structured editor for the blocks of a single page.
+ * Every change is reported as a correction against the block id, so the
+ * original OCR output stays intact and filters never discard manual work.
+ */
+const BlockEditor: React.FC<BlockEditorProps> = ({ page, edits, includeLabels, readingOrder, selectedBlockId, onSelectBlock, onEditBlock }) => {
+  const originals = new Map(page.blocks.map(b => [b.id, b]));
+  const blocks = sortBlocksByReadingOrder(applyBlockEdits(page.blocks, edits), readingOrder);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  // Keep the selected block visible when it was picked in the image or transcript
+  useEffect(() => {
+    if (selectedBlockId) {
+      cardRefs.current[selectedBlockId]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [selectedBlockId]);
+
+  const updateBlock = (blockId: string, change: Omit<BlockEdit, 'updatedAt'>) => {
+    const original = originals.get(blockId);
+    if (!original) return;
+    const merged = { ...edits[blockId], ...change };
+
+    // Drop fields that were changed back to the original value
+    const edit: Omit<BlockEdit, 'updatedAt'> = {};
+    if (merged.text !== undefined && merged.text !== original.text) edit.text = merged.text;
+    if (merged.label !== undefined && merged.label !== original.label) edit.label = merged.label;
+
+    onEditBlock(blockId, Object.keys(edit).length > 0 ? edit : null);
+  };
+
+  if (blocks.length === 0) {
+    return (
+      <div className="p-8 text-center text-sm text-slate-400 dark:text-slate-500">
+        No text blocks were detected on this page.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      {blocks.map(block => {
+        const isEdited = !!edits[block.id];
+        const isIncluded = includeLabels.includes(block.label);
+        const isSelected = block.id === selectedBlockId;
+
+        return (
+          <div
+            key={block.id}
+            ref={(el) => { cardRefs.current[block.id] = el; }}
+            onFocus={() => onSelectBlock?.(block.id)}
+            onClick={() => onSelectBlock?.(block.id)}
+            className={`rounded-lg border p-3 transition-colors ${
+              isSelected
+              ? 'border-blue-500 ring-2 ring-blue-500/30'
+              : isEdited
+              ? 'border-amber-300 dark:border-amber-700 bg-amber-50/50 dark:bg-amber-900/10'
+              : 'border-slate-200 dark:border-slate-700'
+            } ${isIncluded ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <select
+                value={block.label}
+                onChange={(e) => updateBlock(block.id, { label: e.target.value as BlockLabel })}
+                className="text-xs p-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {EDITABLE_LABELS.map(label => (
+                  <option key={label} value={label}>{label.toLowerCase().replace('_', ' ')}</option>
+                ))}
+              </select>
+              <div className="flex items-center space-x-2">
+                {!isIncluded && (
+                  <span className="text-[10px] uppercase tracking-wider text-slate-400">Excluded by filter</span>
+                )}
+                {isEdited && (
+                  <button
+                    onClick={() => onEditBlock(block.id, null)}
+                    className="text-xs text-amber-700 dark:text-amber-400 hover:underline"
+                    title="Discard corrections for this block"
+                  >
+                    Revert
+                  </button>
+                )}
+              </div>
+            </div>
+            <textarea
+              value={block.text}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              rows={Math.min(12, Math.max(2, Math.ceil(block.text.length / 70)))}
+              spellCheck={false}
+              className="w-full resize-y focus:outline-none font-serif text-base leading-relaxed text-slate-800 dark:text-slate-200 bg-transparent"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BlockEditor;
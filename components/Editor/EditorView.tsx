@@ -1,76 +1,376 @@
-import React, { useState, useEffect } from 'react';
-import { DocumentData, BlockLabel } from '../../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DocumentData, DocumentEditorChanges, DocumentMetadata, BlockLabel, BlockEdits, BlockEdit, PageData, TextBlock, ReadingOrder, FootnoteMode } from '../../types';
 import ImageViewer from './ImageViewer';
 import TextEditor from './TextEditor';
-import { reconstructCleanText, generateMarkdown, generateHTML, generateEPUB } from '../../utils/reconstruction';
+import BlockEditor from './BlockEditor';
+import RunningHeaderReview from './RunningHeaderReview';
+import ReprocessDialog from './ReprocessDialog';
+import RevisionHistory from './RevisionHistory';
+import EpubExportDialog from './EpubExportDialog';
+import MetadataDialog from './MetadataDialog';
+import { ReprocessRequest } from '../../utils/storage';
+import { detectRunningHeaders, RunningHeaderSuggestion } from '../../utils/runningHeaders';
+import { reconstructCleanText, reconstructWithSourceMap, findSourceAtOffset, findRangeForBlock, applyBlockEdits, sortBlocksByReadingOrder, generateMarkdown, generateHTML, generateEPUB, EpubMetadata, generateDOCX, generateODT, blockLabelsOf, TranscriptStructure } from '../../utils/reconstruction';
+import { generateSearchablePDF } from '../../utils/searchablePdf';
+import { OcrFormat, generateHOCR, generateALTO, generatePAGEXML, loadImageSize, parseOcrFiles, mergeImportedBlocks } from '../../utils/ocrFormats';
 import { DownloadIcon, CheckCircleIcon } from '../Icons';
 
+// Where to open the editor, e.g. the block a search result points at
+export interface EditorTarget {
+  pageIndex: number; // 0-based
+  blockId: string | null;
+}
+
 interface EditorViewProps {
   doc: DocumentData;
+  target?: EditorTarget | null;
   onBack: () => void;
-  onSave: (docId: string, newText: string) => void;
+  onSave: (docId: string, changes: DocumentEditorChanges, note?: string) => Promise<void>;
+  onReprocess: (docId: string, request: ReprocessRequest) => void;
+  onRestoreRevision: (docId: string, revisionId: string) => Promise<DocumentData | null>;
 }
 
-const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
+type EditorMode = 'blocks' | 'transcript';
+
+const FOOTNOTE_MODE_OPTIONS: { value: FootnoteMode; label: string }[] = [
+  { value: 'footnotes', label: 'Linked footnotes' },
+  { value: 'endnotes', label: 'Endnotes per chapter' },
+  { value: 'inline', label: 'Inline paragraphs' },
+];
+
+const READING_ORDER_OPTIONS: { value: ReadingOrder; label: string }[] = [
+  { value: 'multi-column', label: 'Multi-column' },
+  { value: 'single-column', label: 'Single column' },
+  { value: 'rtl', label: 'Right-to-left' },
+];
+
+// Where the current selection came from; only other panes follow it, so
+// moving the caret in the transcript never yanks the caret back.
+type SelectionOrigin = 'image' | 'text' | 'blocks' | 'search';
+
+const EditorView: React.FC<EditorViewProps> = ({ doc, target = null, onBack, onSave, onReprocess, onRestoreRevision }) => {
   const [activePage, setActivePage] = useState(0);
-  const [cleanText, setCleanText] = useState('');
+  const [edits, setEdits] = useState<BlockEdits>({});
+  // Working copy of the pages: box edits change block geometry, not just corrections
+  const [pages, setPages] = useState<PageData[]>(doc.pages);
+  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
+  const [selectionOrigin, setSelectionOrigin] = useState<SelectionOrigin>('blocks');
+  // Block a search result pointed at; outlined in the image until another block is picked
+  const [highlightedBlockId, setHighlightedBlockId] = useState<string | null>(null);
+  const [readingOrder, setReadingOrder] = useState<ReadingOrder>(doc.readingOrder || 'multi-column');
+  const [mergeContinuations, setMergeContinuations] = useState(doc.mergeContinuations !== false);
+  // Running header detection: open review dialog, and the last applied batch for undo
+  const [headerSuggestions, setHeaderSuggestions] = useState<RunningHeaderSuggestion[] | null>(null);
+  const [lastRelabel, setLastRelabel] = useState<{ count: number; previousEdits: BlockEdits } | null>(null);
+  const [footnoteMode, setFootnoteMode] = useState<FootnoteMode>(doc.footnoteMode || 'footnotes');
   const [isSaved, setIsSaved] = useState(true);
+  const [isReprocessOpen, setIsReprocessOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isEpubDialogOpen, setIsEpubDialogOpen] = useState(false);
+  const [isMetadataOpen, setIsMetadataOpen] = useState(false);
+  const [metadata, setMetadata] = useState<DocumentMetadata>(doc.metadata || {});
+  // Optional note stored with the next save's revision
+  const [saveNote, setSaveNote] = useState('');
+  const [mode, setMode] = useState<EditorMode>('blocks');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Pages as last received in `doc`; a page that still matches its entry here has no local changes
+  const receivedPagesRef = useRef<PageData[]>(doc.pages);
   
   // State for block filters
   const [selectedLabels, setSelectedLabels] = useState<BlockLabel[]>([BlockLabel.TITLE, BlockLabel.MAIN_TEXT]);
 
-  // Initialize text on load
+  // Replaces all working state with the given version of the document
+  const loadDocument = (source: DocumentData) => {
+    receivedPagesRef.current = source.pages;
+    setEdits(source.blockEdits || {});
+    setPages(source.pages);
+    setReadingOrder(source.readingOrder || 'multi-column');
+    setMergeContinuations(source.mergeContinuations !== false);
+    setFootnoteMode(source.footnoteMode || 'footnotes');
+    setMetadata(source.metadata || {});
+    setLastRelabel(null);
+    setSelectedBlockId(null);
+    setIsSaved(true);
+  };
+
+  // Initialize edits on load; later updates of the same document (pages finishing
+  // in the background, saves) must not discard unsaved corrections
   useEffect(() => {
-    // If we have previously saved text from the server, use it.
-    // Otherwise, reconstruct from blocks using default filters.
-    if (doc.savedText) {
-      setCleanText(doc.savedText);
-    } else {
-      const initialText = reconstructCleanText(doc.pages, selectedLabels);
-      setCleanText(initialText);
-    }
-    // We only want to run this init logic once when doc changes, 
-    // we don't depend on selectedLabels here because that's for manual updates later.
+    loadDocument(doc);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [doc]);
+  }, [doc.id]);
+
+  // Pages updated while the document is open (background processing) replace
+  // the working copy only where the user hasn't changed that page
+  useEffect(() => {
+    const received = receivedPagesRef.current;
+    if (doc.pages === received) return;
+    receivedPagesRef.current = doc.pages;
+    setPages(prev => prev.length === received.length && prev.every((page, idx) => page === received[idx])
+      ? doc.pages
+      : doc.pages.map((incoming, idx) => prev[idx] && prev[idx] !== received[idx] ? prev[idx] : incoming));
+  }, [doc.pages]);
+
+  // Jump to the requested page and block once per target
+  useEffect(() => {
+    if (!target) return;
+    setActivePage(Math.min(Math.max(0, target.pageIndex), doc.pages.length - 1));
+    setMode('blocks');
+    setSelectedBlockId(target.blockId);
+    setSelectionOrigin('search');
+    setHighlightedBlockId(target.blockId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [target]);
+
+  // Documents saved before per-block editing only carry a flattened transcript.
+  // Show it as-is until the user starts making block-level corrections.
+  const isLegacyText = !!doc.savedText && !doc.blockEdits && Object.keys(edits).length === 0 && pages === doc.pages;
+
+  // The transcript is always derived from blocks + corrections, so toggling
+  // filters can no longer discard manual edits.
+  const reconstruction = useMemo(
+    () => reconstructWithSourceMap(pages, selectedLabels, edits, { readingOrder, mergeContinuations, footnoteMode }),
+    [pages, selectedLabels, edits, readingOrder, mergeContinuations, footnoteMode]
+  );
+  const cleanText = isLegacyText ? doc.savedText as string : reconstruction.text;
+
+  const selectBlock = (blockId: string | null, origin: SelectionOrigin) => {
+    setSelectedBlockId(blockId);
+    setSelectionOrigin(origin);
+    if (blockId !== highlightedBlockId) setHighlightedBlockId(null);
+  };
+
+  // Caret moved in the transcript: jump the image to the page and box it came from
+  const handleTranscriptCursor = (offset: number) => {
+    if (isLegacyText) return;
+    const source = findSourceAtOffset(reconstruction.sourceMap, offset);
+    if (!source || source.blockId === selectedBlockId) return;
+    const pageIndex = pages.findIndex(p => p.pageNumber === source.pageNumber);
+    if (pageIndex >= 0) setActivePage(pageIndex);
+    selectBlock(source.blockId, 'text');
+  };
+
+  // Box selected elsewhere: reveal its paragraph in the transcript
+  const highlightRange = useMemo(() => {
+    if (isLegacyText || !selectedBlockId || selectionOrigin === 'text') return null;
+    const range = findRangeForBlock(reconstruction.sourceMap, selectedBlockId);
+    return range ? { start: range.start, end: range.end } : null;
+  }, [reconstruction, selectedBlockId, selectionOrigin, isLegacyText]);
+
+  const handleEditBlock = (blockId: string, edit: Omit<BlockEdit, 'updatedAt'> | null) => {
+    setEdits(prev => {
+      const next = { ...prev };
+      if (edit) {
+        next[blockId] = { ...edit, updatedAt: Date.now() };
+      } else {
+        delete next[blockId];
+      }
+      return next;
+    });
+    setIsSaved(false);
+  };
+
+  // --- Box editing (structural changes to the active page's blocks) ---
 
-  const handleTextChange = (newText: string) => {
-    setCleanText(newText);
+  const updateActivePageBlocks = (update: (blocks: TextBlock[]) => TextBlock[]) => {
+    setPages(prev => prev.map((p, idx) => idx === activePage ? { ...p, blocks: update(p.blocks) } : p));
     setIsSaved(false);
   };
 
-  const toggleLabel = (label: BlockLabel) => {
-    setSelectedLabels(prev => {
-      const newLabels = prev.includes(label) 
-        ? prev.filter(l => l !== label)
-        : [...prev, label];
-      
-      // Trigger reconstruction immediately using the new labels
-      // Note: This will overwrite manual edits if they haven't been saved/exported.
-      const newText = reconstructCleanText(doc.pages, newLabels);
-      setCleanText(newText);
-      setIsSaved(false); // Mark as unsaved
-      
-      return newLabels;
+  const dropEdits = (blockIds: string[]) => {
+    setEdits(prev => {
+      const next = { ...prev };
+      blockIds.forEach(id => delete next[id]);
+      return next;
     });
   };
 
-  const handleSave = () => {
-    onSave(doc.id, cleanText);
+  const handleChangeBox = (blockId: string, box: number[]) => {
+    updateActivePageBlocks(blocks => blocks.map(b => b.id === blockId ? { ...b, box_2d: box } : b));
+  };
+
+  const handleCreateBlock = (box: number[]) => {
+    const newBlock: TextBlock = {
+      id: crypto.randomUUID(),
+      text: '',
+      label: BlockLabel.MAIN_TEXT,
+      box_2d: box
+    };
+    updateActivePageBlocks(blocks => [...blocks, newBlock]);
+    setSelectedBlockId(newBlock.id);
+    setMode('blocks');
+  };
+
+  const handleDeleteBlock = (blockId: string) => {
+    updateActivePageBlocks(blocks => blocks.filter(b => b.id !== blockId));
+    dropEdits([blockId]);
+    setSelectedBlockId(null);
+  };
+
+  // Merges source into target: union box, texts joined in reading order.
+  // Corrections are folded into the merged block so nothing typed is lost.
+  const handleMergeBlocks = (targetId: string, sourceId: string) => {
+    updateActivePageBlocks(blocks => {
+      const effective = applyBlockEdits(blocks, edits);
+      const pair = sortBlocksByReadingOrder(effective.filter(b => b.id === targetId || b.id === sourceId), readingOrder);
+      if (pair.length !== 2) return blocks;
+
+      const [first, second] = pair;
+      const boxA = first.box_2d || [0, 0, 0, 0];
+      const boxB = second.box_2d || [0, 0, 0, 0];
+      const target = effective.find(b => b.id === targetId) as TextBlock;
+      const merged: TextBlock = {
+        id: targetId,
+        text: [first.text, second.text].filter(Boolean).join('\n\n'),
+        label: target.label,
+        box_2d: [
+          Math.min(boxA[0], boxB[0]),
+          Math.min(boxA[1], boxB[1]),
+          Math.max(boxA[2], boxB[2]),
+          Math.max(boxA[3], boxB[3])
+        ]
+      };
+      return blocks
+        .filter(b => b.id !== sourceId)
+        .map(b => b.id === targetId ? merged : b);
+    });
+    dropEdits([targetId, sourceId]);
+    setSelectedBlockId(targetId);
+  };
+
+  const handleRelabelBlock = (blockId: string, label: BlockLabel) => {
+    const original = pages[activePage]?.blocks.find(b => b.id === blockId);
+    if (!original) return;
+    const { label: _previous, ...rest } = edits[blockId] || {};
+    handleEditBlock(blockId, label === original.label
+      ? (rest.text !== undefined ? { text: rest.text } : null)
+      : { ...rest, label });
+  };
+
+  // --- Running header/footer detection ---
+
+  const handleApplyHeaderSuggestions = (accepted: RunningHeaderSuggestion[]) => {
+    const previousEdits = edits;
+    const next = { ...edits };
+    accepted.forEach(suggestion => {
+      const original = pages.flatMap(p => p.blocks).find(b => b.id === suggestion.blockId);
+      if (!original) return;
+      const { label: _previous, ...rest } = next[suggestion.blockId] || {};
+      if (suggestion.toLabel === original.label) {
+        if (rest.text !== undefined) next[suggestion.blockId] = { ...rest, updatedAt: Date.now() };
+        else delete next[suggestion.blockId];
+      } else {
+        next[suggestion.blockId] = { ...rest, label: suggestion.toLabel, updatedAt: Date.now() };
+      }
+    });
+    setEdits(next);
+    setIsSaved(false);
+    setLastRelabel({ count: accepted.length, previousEdits });
+    setHeaderSuggestions(null);
+  };
+
+  const handleUndoRelabel = () => {
+    if (!lastRelabel) return;
+    setEdits(lastRelabel.previousEdits);
+    setIsSaved(false);
+    setLastRelabel(null);
+  };
+
+  const toggleLabel = (label: BlockLabel) => {
+    setSelectedLabels(prev => prev.includes(label)
+      ? prev.filter(l => l !== label)
+      : [...prev, label]
+    );
+  };
+
+  // Resolves to whether the save went through; on failure the changes stay unsaved
+  const handleSave = async () => {
+    const note = saveNote;
+    const saving = onSave(doc.id, {
+      pages,
+      blockEdits: edits,
+      readingOrder,
+      mergeContinuations,
+      footnoteMode,
+      metadata,
+      savedText: reconstructCleanText(pages, selectedLabels, edits, { readingOrder, mergeContinuations, footnoteMode })
+    }, note.trim() || undefined);
     setIsSaved(true);
+    setSaveNote('');
+    try {
+      await saving;
+      return true;
+    } catch (e) {
+      setIsSaved(false);
+      setSaveNote(note);
+      return false;
+    }
   };
 
-  const handleDownload = async (format: 'md' | 'txt' | 'html' | 'epub') => {
+  // The model's output as reconstructed today, without any text or label corrections
+  const rawText = useMemo(
+    () => isHistoryOpen ? reconstructCleanText(pages, selectedLabels, {}, { readingOrder, mergeContinuations, footnoteMode }) : '',
+    [isHistoryOpen, pages, selectedLabels, readingOrder, mergeContinuations, footnoteMode]
+  );
+
+  const handleRestoreRevision = async (revisionId: string) => {
+    const restored = await onRestoreRevision(doc.id, revisionId);
+    if (restored) loadDocument(restored);
+    setIsHistoryOpen(false);
+  };
+
+  // Unsaved work is saved first so reprocessing never discards it
+  const handleReprocess = async (request: ReprocessRequest) => {
+    if (!isSaved && !await handleSave()) return;
+    setIsReprocessOpen(false);
+    onReprocess(doc.id, request);
+  };
+
+  const exportTitle = metadata.title || doc.name;
+
+  const handleDownload = async (format: 'md' | 'txt' | 'html' | 'epub' | 'docx' | 'odt' | 'pdf' | OcrFormat, epub?: EpubMetadata) => {
     let blob: Blob;
-    let extension = format;
+    let extension: string = format;
+    // Legacy text has no source map, so word processor exports can't tell captions apart
+    const structure: TranscriptStructure = isLegacyText ? {} : { sourceMap: reconstruction.sourceMap, blockLabels: blockLabelsOf(pages, edits) };
 
     if (format === 'html') {
-      blob = generateHTML(cleanText, doc.name);
+      blob = generateHTML(cleanText, exportTitle, metadata);
     } else if (format === 'epub') {
-      blob = await generateEPUB(cleanText, doc.name);
+      blob = await generateEPUB(cleanText, epub || { ...metadata, title: exportTitle });
       extension = 'epub';
+    } else if (format === 'docx') {
+      blob = await generateDOCX(cleanText, exportTitle, structure, metadata);
+    } else if (format === 'odt') {
+      blob = await generateODT(cleanText, exportTitle, structure, metadata);
+    } else if (format === 'pdf') {
+      try {
+        blob = await generateSearchablePDF(pages, edits, { title: exportTitle, dpi: doc.rasterDpi, metadata });
+      } catch (e) {
+        console.error("PDF export failed", e);
+        alert("Could not build the PDF. Please try again.");
+        return;
+      }
+    } else if (format === 'hocr' || format === 'alto' || format === 'page') {
+      try {
+        const sizes = await Promise.all(pages.map(p => loadImageSize(p.imageUrl)));
+        if (format === 'hocr') {
+          blob = generateHOCR(pages, edits, sizes, exportTitle);
+        } else if (format === 'alto') {
+          blob = generateALTO(pages, edits, sizes, exportTitle);
+          extension = 'alto.xml';
+        } else {
+          blob = await generatePAGEXML(pages, edits, sizes);
+          extension = 'page.zip';
+        }
+      } catch (e) {
+        console.error("OCR export failed", e);
+        alert("Could not load the page images for this export. Please try again.");
+        return;
+      }
     } else {
-      blob = generateMarkdown(cleanText);
+      // Plain text gets no front matter
+      blob = generateMarkdown(cleanText, format === 'md' ? metadata : undefined);
     }
     
     const url = URL.createObjectURL(blob);
@@ -84,6 +384,33 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
     URL.revokeObjectURL(url);
   };
 
+  // hOCR / ALTO / PAGE XML corrected elsewhere: imported blocks replace the
+  // matching pages' blocks as unsaved changes, so they can be reviewed first
+  const handleImportOcr = async (files: File[]) => {
+    try {
+      const imported = await parseOcrFiles(files, pages);
+      if (imported.length === 0) {
+        alert("No matching pages were found in the imported file.");
+        return;
+      }
+      let nextEdits = edits;
+      const nextPages = pages.map((page, i) => {
+        const match = imported.find(p => p.pageIndex === i);
+        if (!match) return page;
+        const merged = mergeImportedBlocks(page.blocks, match.blocks, nextEdits);
+        nextEdits = merged.edits;
+        return { ...page, blocks: merged.blocks };
+      });
+      setPages(nextPages);
+      setEdits(nextEdits);
+      setSelectedBlockId(null);
+      setIsSaved(false);
+    } catch (e: any) {
+      console.error("OCR import failed", e);
+      alert(`Could not import: ${e.message}`);
+    }
+  };
+
   const availableLabels = [
     BlockLabel.TITLE, 
     BlockLabel.MAIN_TEXT, 
@@ -93,6 +420,63 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
     BlockLabel.CAPTION
   ];
 
+  const modeControls = (
+    <div className="flex rounded-md border border-slate-300 dark:border-slate-600 overflow-hidden shrink-0">
+      {(['blocks', 'transcript'] as EditorMode[]).map(m => (
+        <button
+          key={m}
+          onClick={() => setMode(m)}
+          className={`px-2 py-0.5 text-xs font-medium capitalize transition-colors ${
+            mode === m
+            ? 'bg-blue-600 text-white'
+            : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+          }`}
+        >
+          {m}
+        </button>
+      ))}
+    </div>
+  );
+
+  const readingOrderControl = (
+    <select
+      value={readingOrder}
+      onChange={(e) => { setReadingOrder(e.target.value as ReadingOrder); setIsSaved(false); }}
+      className="text-xs p-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      title="Page layout used to determine reading order"
+    >
+      {READING_ORDER_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+
+  const continuationControl = (
+    <label className="flex items-center space-x-1 cursor-pointer group select-none shrink-0" title="Join sentences and hyphenated words split across blocks or pages">
+      <input
+        type="checkbox"
+        checked={mergeContinuations}
+        onChange={(e) => { setMergeContinuations(e.target.checked); setIsSaved(false); }}
+        className="w-3.5 h-3.5 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+      />
+      <span className="text-xs text-slate-600 dark:text-slate-400 group-hover:text-blue-600 dark:group-hover:text-blue-400 whitespace-nowrap">Join paragraphs</span>
+    </label>
+  );
+
+  // Only meaningful when footnotes are part of the output
+  const footnoteControl = selectedLabels.includes(BlockLabel.FOOTNOTE) && (
+    <select
+      value={footnoteMode}
+      onChange={(e) => { setFootnoteMode(e.target.value as FootnoteMode); setIsSaved(false); }}
+      className="text-xs p-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      title="How footnotes are placed in the transcript and exports"
+    >
+      {FOOTNOTE_MODE_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  );
+
   const filterControls = (
     <div className="flex items-center space-x-3 overflow-x-auto no-scrollbar py-1">
       <span className="text-xs text-slate-400 font-medium whitespace-nowrap pl-2 border-l border-slate-200 dark:border-slate-700">Include:</span>
@@ -129,6 +513,69 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
         </div>
 
         <div className="flex items-center space-x-3">
+          {lastRelabel && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Relabelled {lastRelabel.count} block{lastRelabel.count === 1 ? '' : 's'}.{' '}
+              <button onClick={handleUndoRelabel} className="text-blue-600 dark:text-blue-400 font-medium hover:underline">Undo</button>
+            </span>
+          )}
+          <button
+            onClick={() => setHeaderSuggestions(detectRunningHeaders(pages, edits))}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            title="Find repeated page numbers and running titles across pages"
+          >
+            Detect Headers
+          </button>
+          <button
+            onClick={() => setIsReprocessOpen(true)}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            title="Run OCR again on selected pages"
+          >
+            Reprocess
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            title="Load blocks corrected in another tool (hOCR, ALTO XML, PAGE XML)"
+          >
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".hocr,.html,.htm,.xml,.zip"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = '';
+              if (files.length > 0) handleImportOcr(files);
+            }}
+          />
+          <button
+            onClick={() => setIsMetadataOpen(true)}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            title="Title, authors and other bibliographic details used in exports"
+          >
+            Details
+          </button>
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+            title="Browse, compare and restore earlier saves"
+          >
+            History
+          </button>
+          {!isSaved && (
+            <input
+              type="text"
+              value={saveNote}
+              onChange={(e) => setSaveNote(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Note for this save (optional)"
+              className="w-52 text-sm px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+            />
+          )}
           <button
             onClick={handleSave}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center ${
@@ -147,9 +594,15 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
             <div className="absolute right-0 top-full pt-2 w-48 hidden group-hover:block z-50">
                <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-100 dark:border-slate-700 overflow-hidden">
                 <button onClick={() => handleDownload('md')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">Markdown (.md)</button>
-                <button onClick={() => handleDownload('epub')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">EPUB (.epub)</button>
+                <button onClick={() => setIsEpubDialogOpen(true)} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">EPUB (.epub)</button>
+                <button onClick={() => handleDownload('docx')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">Word (.docx)</button>
+                <button onClick={() => handleDownload('odt')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">OpenDocument (.odt)</button>
+                <button onClick={() => handleDownload('pdf')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">Searchable PDF (.pdf)</button>
                 <button onClick={() => handleDownload('html')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">HTML (.html)</button>
                 <button onClick={() => handleDownload('txt')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">Plain Text (.txt)</button>
+                <button onClick={() => handleDownload('hocr')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">hOCR (.hocr)</button>
+                <button onClick={() => handleDownload('alto')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">ALTO XML (.xml)</button>
+                <button onClick={() => handleDownload('page')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-blue-600 dark:hover:text-blue-400">PAGE XML (.zip)</button>
                </div>
             </div>
           </div>
@@ -161,8 +614,19 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
         {/* Left: Image Viewer */}
         <div className="w-1/2 flex flex-col border-r border-slate-200 dark:border-slate-700">
           <div className="flex-1 overflow-hidden relative bg-slate-100 dark:bg-slate-900">
-            {doc.pages[activePage] && (
-              <ImageViewer page={doc.pages[activePage]} />
+            {pages[activePage] && (
+              <ImageViewer
+                page={pages[activePage]}
+                edits={edits}
+                selectedBlockId={selectedBlockId}
+                highlightedBlockId={highlightedBlockId}
+                onSelectBlock={(id) => selectBlock(id, 'image')}
+                onChangeBox={handleChangeBox}
+                onCreateBlock={handleCreateBlock}
+                onDeleteBlock={handleDeleteBlock}
+                onMergeBlocks={handleMergeBlocks}
+                onRelabelBlock={handleRelabelBlock}
+              />
             )}
           </div>
           {/* Pagination */}
@@ -177,6 +641,11 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
             <span className="text-sm text-slate-600 dark:text-slate-400 font-medium">
               Page {activePage + 1} of {doc.pages.length}
             </span>
+            {pages[activePage]?.status === 'error' && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300" title={pages[activePage].error}>
+                OCR failed
+              </span>
+            )}
             <button 
               disabled={activePage === doc.pages.length - 1}
               onClick={() => setActivePage(p => p + 1)}
@@ -187,15 +656,90 @@ const EditorView: React.FC<EditorViewProps> = ({ doc, onBack, onSave }) => {
           </div>
         </div>
 
-        {/* Right: Text Editor */}
+        {/* Right: Block Editor / Transcript Preview */}
         <div className="w-1/2 h-full">
-          <TextEditor 
-            text={cleanText} 
-            onChange={handleTextChange} 
-            headerControls={filterControls}
-          />
+          <TextEditor
+            title={mode === 'blocks' ? `Page ${activePage + 1} Blocks` : 'Clean Transcription'}
+            text={cleanText}
+            readOnly
+            onCursorChange={handleTranscriptCursor}
+            highlightRange={mode === 'transcript' ? highlightRange : null}
+            headerControls={<>{modeControls}{readingOrderControl}{continuationControl}{filterControls}{footnoteControl}</>}
+          >
+            {mode === 'blocks' && pages[activePage] ? (
+              <BlockEditor
+                page={pages[activePage]}
+                edits={edits}
+                includeLabels={selectedLabels}
+                readingOrder={readingOrder}
+                selectedBlockId={selectedBlockId}
+                onSelectBlock={(id) => selectBlock(id, 'blocks')}
+                onEditBlock={handleEditBlock}
+              />
+            ) : isLegacyText ? (
+              <div className="h-full flex flex-col">
+                <div className="px-8 py-2 text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 border-b border-amber-200 dark:border-amber-800">
+                  This transcript was saved before block-level editing. It will be replaced by the block reconstruction once you correct a block and save.
+                </div>
+                <pre className="flex-1 p-8 whitespace-pre-wrap font-serif text-lg leading-relaxed text-slate-800 dark:text-slate-200">{cleanText}</pre>
+              </div>
+            ) : undefined}
+          </TextEditor>
         </div>
       </div>
+
+      {headerSuggestions && (
+        <RunningHeaderReview
+          suggestions={headerSuggestions}
+          onApply={handleApplyHeaderSuggestions}
+          onClose={() => setHeaderSuggestions(null)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <RevisionHistory
+          docId={doc.id}
+          currentText={cleanText}
+          rawText={rawText}
+          hasUnsavedChanges={!isSaved}
+          onRestore={handleRestoreRevision}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {isMetadataOpen && (
+        <MetadataDialog
+          metadata={metadata}
+          defaultTitle={doc.name}
+          onApply={(next) => {
+            setMetadata(next);
+            setIsMetadataOpen(false);
+            setIsSaved(false);
+          }}
+          onClose={() => setIsMetadataOpen(false)}
+        />
+      )}
+      {isEpubDialogOpen && (
+        <EpubExportDialog
+          defaultTitle={doc.name.replace(/\.[^/.]+$/, "")}
+          metadata={metadata}
+          coverImageUrl={pages[0]?.imageUrl || null}
+          onExport={(metadata) => {
+            setIsEpubDialogOpen(false);
+            handleDownload('epub', metadata);
+          }}
+          onClose={() => setIsEpubDialogOpen(false)}
+        />
+      )}
+      {isReprocessOpen && (
+        <ReprocessDialog
+          pages={pages}
+          activePage={activePage}
+          defaultModel={doc.modelUsed}
+          onSubmit={handleReprocess}
+          onClose={() => setIsReprocessOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { DocumentMetadata } from '../../types';
+import { EpubMetadata, LANGUAGE_TAG } from '../../utils/reconstruction';
+
+interface EpubExportDialogProps {
+  defaultTitle: string;
+  metadata: DocumentMetadata; // The document's details; the fields below start from them
+  coverImageUrl: string | null; // First page image, if any
+  onExport: (metadata: EpubMetadata) => void;
+  onClose: () => void;
+}
+
+/**
+ * Collects the book metadata written into the EPUB before exporting. Changes
+ * here only apply to this export; the document's details stay as they are.
+ */
+const EpubExportDialog: React.FC<EpubExportDialogProps> = ({ defaultTitle, metadata, coverImageUrl, onExport, onClose }) => {
+  const [title, setTitle] = useState(metadata.title || defaultTitle);
+  const [authors, setAuthors] = useState((metadata.authors || []).join('; '));
+  const [language, setLanguage] = useState(metadata.language || (navigator.language || 'en').split('-')[0]);
+  const [useCover, setUseCover] = useState(!!coverImageUrl);
+
+  const isLanguageValid = LANGUAGE_TAG.test(language.trim());
+  const inputClass = "w-full p-2 mb-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-lg w-full p-6 border border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Export EPUB</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          Each title starts a new chapter. These details appear in e-reader libraries.
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Title</label>
+        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Authors (optional, separated by ";")</label>
+        <input type="text" value={authors} onChange={(e) => setAuthors(e.target.value)} className={inputClass} />
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Language</label>
+        <input
+          type="text"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="e.g. en, es, fr-CA"
+          className={inputClass.replace('mb-4', 'mb-1')}
+        />
+        <p className={`text-xs mb-4 ${isLanguageValid ? 'text-slate-500 dark:text-slate-400' : 'text-red-600 dark:text-red-400'}`}>
+          {isLanguageValid ? 'Language code used for hyphenation and text-to-speech' : 'Enter a language code such as "en" or "es-ES"'}
+        </p>
+
+        <label className={`flex items-center space-x-3 mb-6 select-none ${coverImageUrl ? 'cursor-pointer' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={useCover}
+            disabled={!coverImageUrl}
+            onChange={(e) => setUseCover(e.target.checked)}
+            className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+          />
+          {coverImageUrl && (
+            <img src={coverImageUrl} alt="" className="w-10 h-14 object-cover rounded border border-slate-200 dark:border-slate-600" />
+          )}
+          <span className="text-sm text-slate-700 dark:text-slate-300">Use the first page as cover</span>
+        </label>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            disabled={!title.trim() || !isLanguageValid}
+            onClick={() => onExport({
+              ...metadata,
+              title: title.trim(),
+              authors: authors.split(';').map(a => a.trim()).filter(Boolean),
+              language: language.trim(),
+              coverImageUrl: useCover && coverImageUrl ? coverImageUrl : undefined
+            })}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EpubExportDialog;
@@ -1,13 +1,76 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { PageData, BlockLabel } from '../../types';
+import { PageData, BlockLabel, BlockEdits } from '../../types';
+import { applyBlockEdits } from '../../utils/reconstruction';
+import { TrashIcon } from '../Icons';
+
+type Box = [number, number, number, number]; // [ymin, xmin, ymax, xmax] normalized 0-1000
+type Corner = 'tl' | 'tr' | 'bl' | 'br';
+
+interface DragState {
+  type: 'move' | 'resize' | 'draw';
+  blockId?: string;
+  corner?: Corner;
+  startY: number;
+  startX: number;
+  origin: Box;
+}
 
 interface ImageViewerProps {
   page: PageData;
+  edits?: BlockEdits;
+  selectedBlockId?: string | null;
+  // Outlined and scrolled into view, e.g. the block a search result points at
+  highlightedBlockId?: string | null;
+  onSelectBlock?: (blockId: string | null) => void;
+  onChangeBox?: (blockId: string, box: number[]) => void;
+  onCreateBlock?: (box: number[]) => void;
+  onDeleteBlock?: (blockId: string) => void;
+  onMergeBlocks?: (targetId: string, sourceId: string) => void;
+  onRelabelBlock?: (blockId: string, label: BlockLabel) => void;
 }
 
-const ImageViewer: React.FC<ImageViewerProps> = ({ page }) => {
+// Boxes smaller than this (in normalized units) are treated as accidental clicks when drawing
+const MIN_BOX_SIZE = 5;
+
+const RELABEL_OPTIONS = [
+  BlockLabel.TITLE,
+  BlockLabel.MAIN_TEXT,
+  BlockLabel.HEADER,
+  BlockLabel.FOOTER,
+  BlockLabel.FOOTNOTE,
+  BlockLabel.CAPTION,
+  BlockLabel.UNKNOWN
+];
+
+const clamp = (v: number) => Math.max(0, Math.min(1000, v));
+
+const normalizeBox = ([y1, x1, y2, x2]: Box): Box => [
+  Math.min(y1, y2), Math.min(x1, x2), Math.max(y1, y2), Math.max(x1, x2)
+];
+
+const ImageViewer: React.FC<ImageViewerProps> = ({
+  page,
+  edits = {},
+  selectedBlockId = null,
+  highlightedBlockId = null,
+  onSelectBlock,
+  onChangeBox,
+  onCreateBlock,
+  onDeleteBlock,
+  onMergeBlocks,
+  onRelabelBlock
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [scale, setScale] = useState(1);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const [isDrawMode, setIsDrawMode] = useState(false);
+  const [isMergePending, setIsMergePending] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<Box | null>(null);
+
+  const isEditable = !!onChangeBox;
+  const blocks = applyBlockEdits(page.blocks, edits);
+  const selectedBlock = blocks.find(b => b.id === selectedBlockId);
 
   // Colors for bounding boxes
   const labelColors: Record<string, string> = {
@@ -16,6 +79,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ page }) => {
     [BlockLabel.FOOTNOTE]: 'rgba(239, 68, 68, 0.2)', // Red
     [BlockLabel.HEADER]: 'rgba(249, 115, 22, 0.2)', // Orange
     [BlockLabel.FOOTER]: 'rgba(249, 115, 22, 0.2)', // Orange
+    [BlockLabel.CAPTION]: 'rgba(168, 85, 247, 0.2)', // Purple
   };
 
   const borderColors: Record<string, string> = {
@@ -24,51 +88,237 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ page }) => {
     [BlockLabel.FOOTNOTE]: '#ef4444',
     [BlockLabel.HEADER]: '#f97316',
     [BlockLabel.FOOTER]: '#f97316',
+    [BlockLabel.CAPTION]: '#a855f7',
   };
 
+  // Leaving the page or losing the selection cancels any pending tool
+  useEffect(() => {
+    setIsMergePending(false);
+  }, [page.pageNumber, selectedBlockId]);
+
+  // The image may be taller than the pane: bring the highlighted box into view
+  useEffect(() => {
+    if (highlightedBlockId) {
+      highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [highlightedBlockId, page.pageNumber]);
+
+  const toNormalized = (clientX: number, clientY: number): [number, number] => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return [0, 0];
+    return [
+      clamp(((clientY - rect.top) / rect.height) * 1000),
+      clamp(((clientX - rect.left) / rect.width) * 1000)
+    ];
+  };
+
+  // Track the pointer on the window while dragging so fast moves don't lose the box
+  useEffect(() => {
+    if (!drag) return;
+
+    const computeBox = (e: PointerEvent): Box => {
+      const [y, x] = toNormalized(e.clientX, e.clientY);
+      const [ymin, xmin, ymax, xmax] = drag.origin;
+
+      if (drag.type === 'draw') {
+        return normalizeBox([drag.startY, drag.startX, y, x]);
+      }
+      if (drag.type === 'move') {
+        const dy = Math.max(-ymin, Math.min(1000 - ymax, y - drag.startY));
+        const dx = Math.max(-xmin, Math.min(1000 - xmax, x - drag.startX));
+        return [ymin + dy, xmin + dx, ymax + dy, xmax + dx];
+      }
+      // Resize: the dragged corner follows the pointer, the opposite one stays put
+      switch (drag.corner) {
+        case 'tl': return normalizeBox([y, x, ymax, xmax]);
+        case 'tr': return normalizeBox([y, xmin, ymax, x]);
+        case 'bl': return normalizeBox([ymin, x, y, xmax]);
+        default: return normalizeBox([ymin, xmin, y, x]);
+      }
+    };
+
+    const handleMove = (e: PointerEvent) => setDraftBox(computeBox(e));
+
+    const handleUp = (e: PointerEvent) => {
+      const box = computeBox(e).map(Math.round) as Box;
+      const isBigEnough = box[2] - box[0] >= MIN_BOX_SIZE && box[3] - box[1] >= MIN_BOX_SIZE;
+
+      if (drag.type === 'draw') {
+        if (isBigEnough) onCreateBlock?.(box);
+        setIsDrawMode(false);
+      } else if (drag.blockId && isBigEnough && box.some((v, i) => v !== drag.origin[i])) {
+        onChangeBox?.(drag.blockId, box);
+      }
+      setDrag(null);
+      setDraftBox(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drag]);
+
+  const handleOverlayPointerDown = (e: React.PointerEvent) => {
+    if (!isEditable) return;
+    if (isDrawMode) {
+      e.preventDefault();
+      const [y, x] = toNormalized(e.clientX, e.clientY);
+      setDrag({ type: 'draw', startY: y, startX: x, origin: [y, x, y, x] });
+      setDraftBox([y, x, y, x]);
+      return;
+    }
+    // Clicking empty space clears the selection
+    onSelectBlock?.(null);
+  };
+
+  const handleBlockPointerDown = (e: React.PointerEvent, blockId: string, box: Box) => {
+    if (isDrawMode) return; // Let the overlay start a new box
+    e.stopPropagation();
+    if (!isEditable) {
+      onSelectBlock?.(blockId);
+      return;
+    }
+    e.preventDefault();
+
+    if (isMergePending && selectedBlockId && blockId !== selectedBlockId) {
+      onMergeBlocks?.(selectedBlockId, blockId);
+      setIsMergePending(false);
+      return;
+    }
+
+    onSelectBlock?.(blockId);
+    const [y, x] = toNormalized(e.clientX, e.clientY);
+    setDrag({ type: 'move', blockId, startY: y, startX: x, origin: box });
+  };
+
+  const handleCornerPointerDown = (e: React.PointerEvent, blockId: string, box: Box, corner: Corner) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const [y, x] = toNormalized(e.clientX, e.clientY);
+    setDrag({ type: 'resize', blockId, corner, startY: y, startX: x, origin: box });
+  };
+
+  const boxStyle = ([ymin, xmin, ymax, xmax]: Box): React.CSSProperties => ({
+    top: `${(ymin / 1000) * 100}%`,
+    left: `${(xmin / 1000) * 100}%`,
+    height: `${((ymax - ymin) / 1000) * 100}%`,
+    width: `${((xmax - xmin) / 1000) * 100}%`,
+    position: 'absolute',
+  });
+
+  const cornerClasses: Record<Corner, string> = {
+    tl: '-top-1 -left-1 cursor-nwse-resize',
+    tr: '-top-1 -right-1 cursor-nesw-resize',
+    bl: '-bottom-1 -left-1 cursor-nesw-resize',
+    br: '-bottom-1 -right-1 cursor-nwse-resize',
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-medium transition-colors ${
+      active
+      ? 'bg-blue-600 text-white'
+      : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700'
+    }`;
+
   return (
-    <div className="relative w-full h-full overflow-auto bg-slate-100 dark:bg-slate-900 p-4 transition-colors" ref={containerRef}>
-      <div className="relative shadow-lg inline-block">
-        <img
-          src={page.imageUrl}
-          alt={`Page ${page.pageNumber}`}
-          className="max-w-[600px] w-full h-auto block"
-          onLoad={() => {
-            // Logic to potentially adjust scale based on container width could go here
-          }}
-        />
-        
-        {/* Render Bounding Boxes Overlay */}
-        <div className="absolute inset-0 pointer-events-none">
-          {page.blocks.map((block) => {
-            if (!block.box_2d) return null;
-            // box_2d is [ymin, xmin, ymax, xmax] usually normalized 0-1000 or 0-1
-            // Assuming Gemini sends 0-1000 per the prompt request, or we normalize it.
-            // Let's assume standard Gemini output which is 0-1000.
-            const [ymin, xmin, ymax, xmax] = block.box_2d;
-            
-            const style: React.CSSProperties = {
-              top: `${(ymin / 1000) * 100}%`,
-              left: `${(xmin / 1000) * 100}%`,
-              height: `${((ymax - ymin) / 1000) * 100}%`,
-              width: `${((xmax - xmin) / 1000) * 100}%`,
-              backgroundColor: labelColors[block.label] || 'rgba(0,0,0,0.1)',
-              border: `1px solid ${borderColors[block.label] || '#000'}`,
-              position: 'absolute',
-            };
-
-            return (
-              <div key={block.id} style={style} className="group">
-                <span className="hidden group-hover:block absolute -top-5 left-0 bg-black text-white text-[10px] px-1 rounded whitespace-nowrap z-10">
-                  {block.label}
-                </span>
-              </div>
-            );
-          })}
+    <div className="relative w-full h-full flex flex-col bg-slate-100 dark:bg-slate-900 transition-colors">
+      {/* Box Editing Toolbar */}
+      {isEditable && (
+        <div className="flex items-center space-x-2 px-4 py-2 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 shrink-0">
+          <button onClick={() => setIsDrawMode(!isDrawMode)} className={toolButtonClass(isDrawMode)} title="Drag on the page to add a new block">
+            {isDrawMode ? 'Drawing…' : 'Draw Box'}
+          </button>
+          {selectedBlock && (
+            <>
+              <div className="h-4 w-px bg-slate-300 dark:bg-slate-600"></div>
+              <select
+                value={selectedBlock.label}
+                onChange={(e) => onRelabelBlock?.(selectedBlock.id, e.target.value as BlockLabel)}
+                className="text-xs p-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                {RELABEL_OPTIONS.map(label => (
+                  <option key={label} value={label}>{label.toLowerCase().replace('_', ' ')}</option>
+                ))}
+              </select>
+              <button onClick={() => setIsMergePending(!isMergePending)} className={toolButtonClass(isMergePending)} title="Click another box to merge it into the selected one">
+                {isMergePending ? 'Pick box to merge…' : 'Merge'}
+              </button>
+              <button
+                onClick={() => onDeleteBlock?.(selectedBlock.id)}
+                className="p-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                title="Delete block"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-4" ref={containerRef}>
+        <div className="relative shadow-lg inline-block">
+          <img
+            src={page.imageUrl}
+            alt={`Page ${page.pageNumber}`}
+            className="max-w-[600px] w-full h-auto block select-none"
+            draggable={false}
+          />
+
+          {/* Render Bounding Boxes Overlay */}
+          <div
+            ref={overlayRef}
+            className={`absolute inset-0 ${isEditable ? '' : 'pointer-events-none'} ${isDrawMode ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handleOverlayPointerDown}
+          >
+            {blocks.map((block) => {
+              if (!block.box_2d) return null;
+              // box_2d is [ymin, xmin, ymax, xmax] normalized 0-1000 (per the prompt request)
+              const isSelected = block.id === selectedBlockId;
+              const isHighlighted = block.id === highlightedBlockId;
+              const isDragged = !!drag && drag.blockId === block.id && !!draftBox;
+              const box = (isDragged ? draftBox : block.box_2d) as Box;
+
+              const style: React.CSSProperties = {
+                ...boxStyle(box),
+                backgroundColor: labelColors[block.label] || 'rgba(0,0,0,0.1)',
+                border: `${isSelected ? 2 : 1}px solid ${borderColors[block.label] || '#000'}`,
+              };
+
+              return (
+                <div
+                  key={block.id}
+                  ref={isHighlighted ? highlightRef : undefined}
+                  style={style}
+                  className={`group ${isEditable && !isDrawMode ? 'cursor-move' : ''} ${isSelected ? 'z-10 ring-2 ring-blue-500/40' : ''} ${isHighlighted ? 'z-10 outline outline-4 outline-yellow-400 outline-offset-2' : ''}`}
+                  onPointerDown={(e) => handleBlockPointerDown(e, block.id, block.box_2d as Box)}
+                >
+                  <span className={`${isSelected ? 'block' : 'hidden group-hover:block'} absolute -top-5 left-0 bg-black text-white text-[10px] px-1 rounded whitespace-nowrap z-10`}>
+                    {block.label}
+                  </span>
+                  {isEditable && isSelected && (Object.keys(cornerClasses) as Corner[]).map(corner => (
+                    <div
+                      key={corner}
+                      className={`absolute w-2.5 h-2.5 bg-white border-2 border-blue-600 rounded-sm ${cornerClasses[corner]}`}
+                      onPointerDown={(e) => handleCornerPointerDown(e, block.id, block.box_2d as Box, corner)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+
+            {/* Box being drawn */}
+            {drag?.type === 'draw' && draftBox && (
+              <div style={boxStyle(draftBox)} className="border-2 border-dashed border-blue-600 bg-blue-500/10 pointer-events-none" />
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
-export default ImageViewer;
\ No newline at end of file
+export default ImageViewer;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { DocumentMetadata } from '../../types';
+import { LANGUAGE_TAG } from '../../utils/reconstruction';
+
+interface MetadataDialogProps {
+  metadata: DocumentMetadata;
+  defaultTitle: string; // Shown as placeholder; exports fall back to it
+  onApply: (metadata: DocumentMetadata) => void;
+  onClose: () => void;
+}
+
+const splitList = (value: string, separator: string) => value.split(separator).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Drops empty fields so only what the user filled in is stored and exported.
+ */
+const compactMetadata = (metadata: DocumentMetadata): DocumentMetadata => {
+  const compact: DocumentMetadata = {};
+  (Object.keys(metadata) as (keyof DocumentMetadata)[]).forEach(field => {
+    const value = metadata[field];
+    if (Array.isArray(value) ? value.length > 0 : value?.trim()) {
+      (compact as Record<string, unknown>)[field] = Array.isArray(value) ? value : value?.trim();
+    }
+  });
+  return compact;
+};
+
+/**
+ * Edits the bibliographic details of a document. Applied changes count as
+ * unsaved edits in the editor until the document is saved.
+ */
+const MetadataDialog: React.FC<MetadataDialogProps> = ({ metadata, defaultTitle, onApply, onClose }) => {
+  const [title, setTitle] = useState(metadata.title || '');
+  const [authors, setAuthors] = useState((metadata.authors || []).join('; '));
+  const [language, setLanguage] = useState(metadata.language || '');
+  const [year, setYear] = useState(metadata.year || '');
+  const [publisher, setPublisher] = useState(metadata.publisher || '');
+  const [isbn, setIsbn] = useState(metadata.isbn || '');
+  const [doi, setDoi] = useState(metadata.doi || '');
+  const [tags, setTags] = useState((metadata.tags || []).join(', '));
+  const [notes, setNotes] = useState(metadata.notes || '');
+
+  const isLanguageValid = !language.trim() || LANGUAGE_TAG.test(language.trim());
+  const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+  const inputClass = "w-full p-2 mb-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white";
+
+  const handleApply = () => {
+    onApply(compactMetadata({
+      title,
+      authors: splitList(authors, ';'),
+      language,
+      year,
+      publisher,
+      isbn,
+      // "https://doi.org/10.1000/x" and "doi:10.1000/x" are stored as the bare DOI
+      doi: doi.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, ''),
+      tags: splitList(tags, ','),
+      notes
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-2xl w-full p-6 border border-slate-200 dark:border-slate-700 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Document Details</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          Written into exports: HTML and EPUB metadata, Word and OpenDocument properties, PDF info and Markdown front matter.
+        </p>
+
+        <label className={labelClass}>Title</label>
+        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} placeholder={defaultTitle} className={inputClass} />
+
+        <label className={labelClass}>Authors (separated by ";")</label>
+        <input type="text" value={authors} onChange={(e) => setAuthors(e.target.value)} placeholder="e.g. Austen, Jane; Brontë, Charlotte" className={inputClass} />
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Language</label>
+            <input
+              type="text"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              placeholder="e.g. en, es-ES"
+              className={`${inputClass} ${isLanguageValid ? '' : 'border-red-500 dark:border-red-500'}`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Year</label>
+            <input type="text" value={year} onChange={(e) => setYear(e.target.value)} placeholder="e.g. 1923" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Publisher</label>
+            <input type="text" value={publisher} onChange={(e) => setPublisher(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>ISBN</label>
+            <input type="text" value={isbn} onChange={(e) => setIsbn(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>DOI</label>
+            <input type="text" value={doi} onChange={(e) => setDoi(e.target.value)} placeholder="e.g. 10.1000/182" className={inputClass} />
+          </div>
+        </div>
+
+        <label className={labelClass}>Tags (separated by ",")</label>
+        <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} className={inputClass} />
+
+        <label className={labelClass}>Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          className={`${inputClass.replace('mb-4', 'mb-6')} text-sm resize-none`}
+        />
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            disabled={!isLanguageValid}
+            onClick={handleApply}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetadataDialog;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { PageData } from '../../types';
+import { OCR_MODELS } from '../../constants';
+import { getOcrProviders } from '../../services/ocrService';
+import { ReprocessRequest } from '../../utils/storage';
+
+interface ReprocessDialogProps {
+  pages: PageData[];
+  activePage: number; // 0-based
+  defaultModel: string;
+  onSubmit: (request: ReprocessRequest) => void;
+  onClose: () => void;
+}
+
+/**
+ * Parses "1-3, 5" into sorted, unique page numbers.
+ * Returns null when the input is malformed or out of range.
+ */
+const parsePageRange = (input: string, total: number): number[] | null => {
+  const pages = new Set<number>();
+  for (const part of input.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return null;
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end > total || start > end) return null;
+    for (let n = start; n <= end; n++) pages.add(n);
+  }
+  return pages.size > 0 ? [...pages].sort((a, b) => a - b) : null;
+};
+
+/**
+ * Picks the pages to re-run OCR on, with an optional model and extra prompt.
+ * Failed pages are preselected; otherwise the page being viewed.
+ */
+const ReprocessDialog: React.FC<ReprocessDialogProps> = ({ pages, activePage, defaultModel, onSubmit, onClose }) => {
+  const failedPages = pages.filter(p => p.status === 'error').map(p => p.pageNumber);
+  const [range, setRange] = useState(failedPages.length > 0 ? failedPages.join(', ') : String(activePage + 1));
+  const [model, setModel] = useState(defaultModel);
+  const [prompt, setPrompt] = useState('');
+  const [unavailableProviders, setUnavailableProviders] = useState<string[]>([]);
+
+  useEffect(() => {
+    getOcrProviders()
+      .then(providers => setUnavailableProviders(providers.filter(p => !p.available).map(p => p.id)))
+      .catch(e => console.warn("Could not load OCR providers", e));
+  }, []);
+
+  const selectedPages = parsePageRange(range, pages.length);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-lg w-full p-6 border border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Reprocess Pages</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          OCR runs again on the selected pages and replaces their blocks. Other pages are left untouched.
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Pages</label>
+        <input
+          type="text"
+          value={range}
+          onChange={(e) => setRange(e.target.value)}
+          placeholder="e.g. 1-3, 5"
+          className="w-full p-2 mb-1 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+        />
+        <p className={`text-xs mb-4 ${selectedPages ? 'text-slate-500 dark:text-slate-400' : 'text-red-600 dark:text-red-400'}`}>
+          {selectedPages
+            ? `${selectedPages.length} page${selectedPages.length === 1 ? '' : 's'} selected`
+            : `Enter page numbers or ranges between 1 and ${pages.length}`}
+          {failedPages.length > 0 && ` · Failed: ${failedPages.join(', ')}`}
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">OCR Model</label>
+        <select
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          className="w-full p-2 mb-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+        >
+          {OCR_MODELS.map(m => (
+            <option key={m.id} value={m.id} disabled={unavailableProviders.includes(m.provider)}>
+              {m.label}{unavailableProviders.includes(m.provider) ? ' - unavailable' : ''}
+            </option>
+          ))}
+        </select>
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Additional Instructions (optional)</label>
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          rows={3}
+          placeholder="e.g. The page is a two-column table of contents."
+          className="w-full p-2 mb-6 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white text-sm resize-none"
+        />
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            disabled={!selectedPages}
+            onClick={() => selectedPages && onSubmit({ pages: selectedPages, model, prompt: prompt.trim() || undefined })}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+          >
+            Reprocess
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReprocessDialog;
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Revision, RevisionSummary } from '../../types';
+import { listRevisions, getRevision } from '../../utils/storage';
+import { diffTexts, DiffSegment } from '../../utils/diff';
+import { LoaderIcon } from '../Icons';
+
+interface RevisionHistoryProps {
+  docId: string;
+  currentText: string; // Transcript as shown in the editor, unsaved changes included
+  rawText: string; // Reconstruction of the model output without corrections
+  hasUnsavedChanges: boolean;
+  onRestore: (revisionId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+type CompareTarget = 'current' | 'raw';
+
+const Segments = ({ segments, tone }: { segments: DiffSegment[]; tone: 'removed' | 'added' }) => (
+  <>
+    {segments.map((segment, i) => segment.changed ? (
+      <span key={i} className={tone === 'removed'
+        ? 'bg-red-200 dark:bg-red-800/60 line-through decoration-red-500/60'
+        : 'bg-green-200 dark:bg-green-800/60'}>
+        {segment.text}
+      </span>
+    ) : <span key={i}>{segment.text}</span>)}
+  </>
+);
+
+/**
+ * Lists the saved revisions of a document and shows one side by side with the
+ * current transcript or the uncorrected model output.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ docId, currentText, rawText, hasUnsavedChanges, onRestore, onClose }) => {
+  const [revisions, setRevisions] = useState<RevisionSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [revision, setRevision] = useState<Revision | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('current');
+  const [changesOnly, setChangesOnly] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    listRevisions(docId)
+      .then(list => {
+        setRevisions(list);
+        if (list.length > 0) setSelectedId(list[0].id);
+      })
+      .catch(e => {
+        console.error("Failed to load revisions", e);
+        setRevisions([]);
+      });
+  }, [docId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    setRevision(null);
+    getRevision(docId, selectedId)
+      .then(setRevision)
+      .catch(e => console.error("Failed to load revision", e));
+  }, [docId, selectedId]);
+
+  const rows = useMemo(
+    () => revision ? diffTexts(revision.savedText || '', compareTo === 'current' ? currentText : rawText) : [],
+    [revision, compareTo, currentText, rawText]
+  );
+  const changedRows = rows.filter(r => r.type !== 'same').length;
+  const visibleRows = changesOnly ? rows.filter(r => r.type !== 'same') : rows;
+
+  const handleRestore = async () => {
+    if (!revision) return;
+    if (hasUnsavedChanges && !window.confirm("Restoring replaces your unsaved changes. Continue?")) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(revision.id);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl w-full h-full max-w-7xl flex flex-col border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white">Revision History</h2>
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-slate-500 dark:text-slate-400">Compare with</span>
+            <select
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value as CompareTarget)}
+              className="text-sm p-1.5 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="current">Current text</option>
+              <option value="raw">Model output (no corrections)</option>
+            </select>
+            <label className="flex items-center space-x-1 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={changesOnly}
+                onChange={(e) => setChangesOnly(e.target.checked)}
+                className="w-3.5 h-3.5 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+              />
+              <span className="text-sm text-slate-600 dark:text-slate-300">Changes only</span>
+            </label>
+            <button
+              disabled={!revision || isRestoring}
+              onClick={handleRestore}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              {isRestoring ? 'Restoring…' : 'Restore This Revision'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Revision list */}
+          <div className="w-72 border-r border-slate-200 dark:border-slate-700 overflow-y-auto shrink-0">
+            {revisions === null ? (
+              <div className="p-6 flex justify-center"><LoaderIcon className="w-6 h-6 text-blue-600 animate-spin" /></div>
+            ) : revisions.length === 0 ? (
+              <p className="p-6 text-sm text-slate-500 dark:text-slate-400">No revisions yet. Every save from the editor is kept here.</p>
+            ) : revisions.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedId(r.id)}
+                className={`block w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-700 transition-colors ${
+                  r.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                }`}
+              >
+                <div className="text-sm font-medium text-slate-700 dark:text-slate-200">{formatDate(r.createdAt)}</div>
+                {r.note && <div className="text-xs text-slate-600 dark:text-slate-300 mt-0.5 break-words">{r.note}</div>}
+                <div className="text-xs text-slate-400 dark:text-slate-500 mt-0.5">{r.textLength.toLocaleString()} characters</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Side-by-side diff */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="grid grid-cols-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+              <div className="px-4 py-2 border-r border-slate-200 dark:border-slate-700">
+                {revision ? `Revision · ${formatDate(revision.createdAt)}` : 'Revision'}
+              </div>
+              <div className="px-4 py-2 flex justify-between">
+                <span>{compareTo === 'current' ? 'Current text' : 'Model output'}</span>
+                {revision && <span className="normal-case font-normal">{changedRows} changed line{changedRows === 1 ? '' : 's'}</span>}
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto font-serif text-sm leading-relaxed text-slate-800 dark:text-slate-200">
+              {selectedId && !revision ? (
+                <div className="p-6 flex justify-center"><LoaderIcon className="w-6 h-6 text-blue-600 animate-spin" /></div>
+              ) : revision && visibleRows.length === 0 ? (
+                <p className="p-6 text-sm text-slate-500 dark:text-slate-400 font-sans">No differences.</p>
+              ) : visibleRows.map((row, i) => (
+                <div key={i} className="grid grid-cols-2 border-b border-slate-100 dark:border-slate-700/50">
+                  <div className={`px-4 py-1 whitespace-pre-wrap break-words border-r border-slate-200 dark:border-slate-700 ${
+                    row.type === 'removed' || row.type === 'changed' ? 'bg-red-50 dark:bg-red-900/20' : ''
+                  }`}>
+                    {row.left && <Segments segments={row.left} tone="removed" />}
+                  </div>
+                  <div className={`px-4 py-1 whitespace-pre-wrap break-words ${
+                    row.type === 'added' || row.type === 'changed' ? 'bg-green-50 dark:bg-green-900/20' : ''
+                  }`}>
+                    {row.right && <Segments segments={row.right} tone="added" />}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
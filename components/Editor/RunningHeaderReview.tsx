@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { RunningHeaderSuggestion } from '../../utils/runningHeaders';
+
+interface RunningHeaderReviewProps {
+  suggestions: RunningHeaderSuggestion[];
+  onApply: (accepted: RunningHeaderSuggestion[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists the detected running headers/footers so the user can pick which
+ * relabels to apply. Nothing changes until "Apply" is pressed.
+ */
+const RunningHeaderReview: React.FC<RunningHeaderReviewProps> = ({ suggestions, onApply, onClose }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(suggestions.map(s => s.blockId)));
+
+  const toggle = (blockId: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(blockId)) next.delete(blockId);
+      else next.add(blockId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-2xl w-full p-6 border border-slate-200 dark:border-slate-700 flex flex-col max-h-[80vh]">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Running Headers &amp; Footers</h2>
+
+        {suggestions.length === 0 ? (
+          <p className="text-slate-600 dark:text-slate-300 mb-6">
+            No repeated headers, footers or page numbers were found that aren't already labelled.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+              These blocks repeat at the same position across pages. Selected blocks will be relabelled; you can undo afterwards.
+            </p>
+            <div className="flex-1 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700 mb-6">
+              {suggestions.map(s => (
+                <label key={s.blockId} className="flex items-center space-x-3 px-4 py-2 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(s.blockId)}
+                    onChange={() => toggle(s.blockId)}
+                    className="w-4 h-4 text-blue-600 rounded border-slate-300 dark:border-slate-600 focus:ring-blue-500"
+                  />
+                  <span className="text-xs text-slate-400 w-14 shrink-0">Page {s.pageNumber}</span>
+                  <span className="flex-1 text-sm text-slate-700 dark:text-slate-200 truncate" title={s.text}>{s.text}</span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                    {s.fromLabel.toLowerCase().replace('_', ' ')} &rarr; <strong>{s.toLabel.toLowerCase()}</strong>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+          >
+            {suggestions.length === 0 ? 'Close' : 'Cancel'}
+          </button>
+          {suggestions.length > 0 && (
+            <button
+              disabled={accepted.size === 0}
+              onClick={() => onApply(suggestions.filter(s => accepted.has(s.blockId)))}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              Apply {accepted.size} Change{accepted.size === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunningHeaderReview;
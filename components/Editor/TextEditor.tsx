@@ -1,29 +1,75 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 
 interface TextEditorProps {
   text: string;
-  onChange: (newText: string) => void;
+  onChange?: (newText: string) => void;
   headerControls?: React.ReactNode;
+  title?: string;
+  readOnly?: boolean;
+  // Reports the caret offset so the caller can map it back to a source block
+  onCursorChange?: (offset: number) => void;
+  // Range to reveal and select, e.g. the paragraph of a box clicked in the image
+  highlightRange?: { start: number; end: number } | null;
+  // When provided, replaces the textarea (e.g. the structured block editor)
+  children?: React.ReactNode;
 }
 
-const TextEditor: React.FC<TextEditorProps> = ({ text, onChange, headerControls }) => {
+const TextEditor: React.FC<TextEditorProps> = ({
+  text,
+  onChange,
+  headerControls,
+  title = 'Clean Transcription',
+  readOnly = false,
+  onCursorChange,
+  highlightRange,
+  children
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !highlightRange) return;
+    // Collapsing the caret to the start and re-focusing makes the browser scroll it into view
+    textarea.setSelectionRange(highlightRange.start, highlightRange.start);
+    textarea.blur();
+    textarea.focus();
+    textarea.setSelectionRange(highlightRange.start, highlightRange.end);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightRange?.start, highlightRange?.end]);
+
+  const reportCursor = () => {
+    if (textareaRef.current && onCursorChange) {
+      onCursorChange(textareaRef.current.selectionStart);
+    }
+  };
+
   return (
     <div className="h-full flex flex-col bg-white dark:bg-slate-800 transition-colors">
       <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex justify-between items-center transition-colors">
         <div className="flex items-center space-x-4">
-          <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Clean Transcription</span>
+          <span className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider whitespace-nowrap">{title}</span>
           {headerControls}
         </div>
-        <span className="text-xs text-slate-400 dark:text-slate-500 hidden sm:inline">Markdown Format Support</span>
+        <span className="text-xs text-slate-400 dark:text-slate-500 hidden sm:inline whitespace-nowrap">
+          {readOnly ? 'Preview' : 'Markdown Format Support'}
+        </span>
       </div>
-      <textarea
-        className="flex-1 w-full h-full p-8 resize-none focus:outline-none font-serif text-lg leading-relaxed text-slate-800 dark:text-slate-200 bg-white dark:bg-slate-800 placeholder-slate-400 dark:placeholder-slate-600 transition-colors"
-        value={text}
-        onChange={(e) => onChange(e.target.value)}
-        spellCheck={false}
-      />
+      {children ? (
+        <div className="flex-1 overflow-y-auto">{children}</div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          className="flex-1 w-full h-full p-8 resize-none focus:outline-none font-serif text-lg leading-relaxed text-slate-800 dark:text-slate-200 bg-white dark:bg-slate-800 placeholder-slate-400 dark:placeholder-slate-600 transition-colors"
+          value={text}
+          onChange={(e) => onChange?.(e.target.value)}
+          readOnly={readOnly}
+          onClick={reportCursor}
+          onKeyUp={reportCursor}
+          spellCheck={false}
+        />
+      )}
     </div>
   );
 };
 
-export default TextEditor;
\ No newline at end of file
+export default TextEditor;
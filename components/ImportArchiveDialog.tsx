@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { importArchive, ArchiveConflictMode } from '../utils/storage';
+import { LoaderIcon } from './Icons';
+
+interface ImportArchiveDialogProps {
+  targetFolderName: string;
+  targetFolderId: string | null;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const CONFLICT_OPTIONS: { value: ArchiveConflictMode; label: string; description: string }[] = [
+  { value: 'rename', label: 'Keep both', description: 'Imported items get new ids' },
+  { value: 'skip', label: 'Keep existing', description: 'Items already on this server are left out' },
+  { value: 'replace', label: 'Replace existing', description: 'Items already on this server are overwritten' }
+];
+
+/**
+ * Imports a DocuClean archive (exported from this or another server) into the
+ * current folder.
+ */
+const ImportArchiveDialog: React.FC<ImportArchiveDialogProps> = ({ targetFolderName, targetFolderId, onImported, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [conflict, setConflict] = useState<ArchiveConflictMode>('rename');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = async () => {
+    if (!file) return;
+    if (conflict === 'replace' && !window.confirm("Items with the same id will be overwritten, including their corrections and history. Continue?")) return;
+    setIsImporting(true);
+    try {
+      const result = await importArchive(file, targetFolderId, conflict);
+      onImported();
+      if (result.skipped.length > 0) {
+        alert(`Imported ${result.items.length} items. ${result.skipped.length} already existed and were skipped.`);
+      }
+      onClose();
+    } catch (e) {
+      console.error("Archive import failed", e);
+      alert("Could not import the archive. Make sure it is a DocuClean archive and try again.");
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-lg w-full p-6 border border-slate-200 dark:border-slate-700">
+        <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-2">Import Archive</h2>
+        <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">
+          Documents and folders from the archive are added to <span className="font-medium">{targetFolderName}</span>.
+        </p>
+
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          disabled={isImporting}
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="w-full mb-4 text-sm text-slate-700 dark:text-slate-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 dark:file:bg-blue-900/30 file:text-blue-700 dark:file:text-blue-300 file:font-medium"
+        />
+
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">When an item already exists</label>
+        <div className="space-y-2 mb-6">
+          {CONFLICT_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start space-x-3 cursor-pointer select-none">
+              <input
+                type="radio"
+                name="conflict"
+                checked={conflict === option.value}
+                disabled={isImporting}
+                onChange={() => setConflict(option.value)}
+                className="mt-0.5 w-4 h-4 text-blue-600 border-slate-300 dark:border-slate-600 focus:ring-blue-500 bg-white dark:bg-slate-700"
+              />
+              <span className="text-sm text-slate-700 dark:text-slate-300">
+                {option.label}
+                <span className="block text-xs text-slate-500 dark:text-slate-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            disabled={!file || isImporting}
+            onClick={handleImport}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shadow-sm disabled:opacity-50 flex items-center"
+          >
+            {isImporting && <LoaderIcon className="w-4 h-4 mr-2 animate-spin" />}
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportArchiveDialog;
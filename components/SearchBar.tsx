@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { searchDocuments, SearchHit } from '../utils/storage';
+import { SearchIcon, LoaderIcon } from './Icons';
+
+interface SearchBarProps {
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+// Wait for a pause in typing before querying the server
+const SEARCH_DELAY_MS = 250;
+
+const Snippet = ({ hit }: { hit: SearchHit }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  hit.highlights.forEach(([start, end], i) => {
+    if (start > position) parts.push(hit.snippet.slice(position, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm px-0.5">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(hit.snippet.slice(position));
+  return <>{parts}</>;
+};
+
+/**
+ * Searches the text of every document; picking a result opens it at the matching block.
+ */
+const SearchBar: React.FC<SearchBarProps> = ({ onOpenHit }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      setTotal(0);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      searchDocuments(query, undefined, controller.signal)
+        .then(results => {
+          setHits(results.results);
+          setTotal(results.total);
+        })
+        .catch(e => {
+          if (e.name !== 'AbortError') console.error("Search failed", e);
+        })
+        .finally(() => setIsSearching(false));
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const openHit = (hit: SearchHit) => {
+    setIsOpen(false);
+    onOpenHit(hit);
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <div className="relative">
+        <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 pointer-events-none" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setIsOpen(false);
+            if (e.key === 'Enter' && hits[0]) openHit(hits[0]);
+          }}
+          placeholder="Search all documents"
+          className="w-full pl-9 pr-9 py-2 border border-slate-300 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm shadow-sm"
+        />
+        {isSearching && (
+          <LoaderIcon className="w-4 h-4 absolute right-3 top-1/2 -translate-y-1/2 text-blue-500 animate-spin" />
+        )}
+      </div>
+
+      {isOpen && query.trim() && !isSearching && (
+        <div className="absolute left-0 right-0 top-full mt-2 z-40 bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 max-h-96 overflow-y-auto">
+          {hits.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">No matches.</p>
+          ) : (
+            <>
+              {hits.map(hit => (
+                <button
+                  key={`${hit.docId}-${hit.blockId ?? hit.snippet}`}
+                  onClick={() => openHit(hit)}
+                  className="block w-full text-left px-4 py-3 border-b border-slate-100 dark:border-slate-700 last:border-b-0 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
+                >
+                  <div className="flex justify-between text-xs mb-1">
+                    <span className="font-medium text-slate-700 dark:text-slate-200 truncate">{hit.docName}</span>
+                    <span className="text-slate-400 dark:text-slate-500 whitespace-nowrap ml-2">
+                      {hit.pageNumber ? `Page ${hit.pageNumber}` : 'Transcript'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-slate-600 dark:text-slate-300 leading-snug">
+                    <Snippet hit={hit} />
+                  </p>
+                </button>
+              ))}
+              {total > hits.length && (
+                <p className="px-4 py-2 text-xs text-slate-400 dark:text-slate-500">
+                  Showing {hits.length} of {total} matches. Refine the search to narrow them down.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
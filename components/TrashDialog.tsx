@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { TrashEntry } from '../types';
+import { listTrash, restoreFromTrash, purgeFromTrash, TrashListing } from '../utils/storage';
+import { FileIcon, FolderIcon, LoaderIcon } from './Icons';
+
+interface TrashDialogProps {
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists deleted items with their contents; each can be restored to where it was
+ * deleted from, or deleted permanently before the retention period runs out.
+ */
+const TrashDialog: React.FC<TrashDialogProps> = ({ onRestored, onClose }) => {
+  const [trash, setTrash] = useState<TrashListing | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = () => {
+    listTrash()
+      .then(setTrash)
+      .catch(e => {
+        console.error("Failed to load trash", e);
+        setTrash({ retentionDays: 0, items: [] });
+      });
+  };
+
+  useEffect(loadTrash, []);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    try {
+      await restoreFromTrash(entry.id);
+      onRestored();
+      loadTrash();
+    } catch (e) {
+      console.error("Failed to restore item", e);
+      alert("Could not restore the item. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry?: TrashEntry) => {
+    const message = entry
+      ? `Delete "${entry.name}" permanently? This cannot be undone.`
+      : "Delete everything in the trash permanently? This cannot be undone.";
+    if (!window.confirm(message)) return;
+    setBusyId(entry?.id || 'all');
+    try {
+      await purgeFromTrash(entry?.id);
+      loadTrash();
+    } catch (e) {
+      console.error("Failed to delete from trash", e);
+      alert("Could not delete the item. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+  const describeContents = (entry: TrashEntry) => {
+    if (entry.type !== 'folder') return null;
+    const others = entry.itemCount - 1;
+    return others === 0 ? 'Empty folder' : `${others} item${others === 1 ? '' : 's'}, ${entry.documentCount} document${entry.documentCount === 1 ? '' : 's'}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-2xl w-full border border-slate-200 dark:border-slate-700 flex flex-col max-h-[80vh]">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white">Trash</h2>
+            {trash && trash.retentionDays > 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Items are deleted permanently {trash.retentionDays} days after they were deleted.</p>
+            )}
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              disabled={!trash || trash.items.length === 0 || busyId !== null}
+              onClick={() => handlePurge()}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition-colors shadow-sm disabled:opacity-50"
+            >
+              Empty Trash
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-600 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {trash === null ? (
+            <div className="p-6 flex justify-center"><LoaderIcon className="w-6 h-6 text-blue-600 animate-spin" /></div>
+          ) : trash.items.length === 0 ? (
+            <p className="p-6 text-sm text-slate-500 dark:text-slate-400">The trash is empty.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+              {trash.items.map(entry => (
+                <li key={entry.id} className="px-6 py-3 flex items-center justify-between">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className={`p-2 rounded-lg ${entry.type === 'folder'
+                      ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-500 dark:text-blue-400'
+                      : 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400'}`}>
+                      {entry.type === 'folder' ? <FolderIcon className="w-5 h-5" /> : <FileIcon className="w-5 h-5" />}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-700 dark:text-slate-200 truncate">{entry.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        Deleted {formatDate(entry.deletedAt)} · Removed for good on {formatDate(entry.purgeAt)}
+                        {describeContents(entry) && ` · ${describeContents(entry)}`}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0 pl-4">
+                    {busyId === entry.id && <LoaderIcon className="w-4 h-4 text-blue-600 animate-spin" />}
+                    <button
+                      disabled={busyId !== null}
+                      onClick={() => handleRestore(entry)}
+                      className="text-blue-600 dark:text-blue-400 font-medium text-sm hover:underline px-2 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      disabled={busyId !== null}
+                      onClick={() => handlePurge(entry)}
+                      className="text-slate-600 dark:text-slate-300 font-medium text-sm hover:text-red-600 dark:hover:text-red-400 hover:underline px-2 disabled:opacity-50"
+                    >
+                      Delete Forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashDialog;
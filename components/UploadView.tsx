@@ -1,6 +1,8 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { UploadCloudIcon, FileIcon } from './Icons';
 import { ProcessingOptions } from '../types';
+import { OCR_MODELS } from '../constants';
+import { getOcrProviders } from '../services/ocrService';
 
 interface UploadViewProps {
   onFileSelect: (files: FileList, options: ProcessingOptions) => void;
@@ -9,6 +11,23 @@ interface UploadViewProps {
 const UploadView: React.FC<UploadViewProps> = ({ onFileSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [selectedModel, setSelectedModel] = useState<ProcessingOptions['model']>('gemini-2.5-flash');
+  const [unavailableProviders, setUnavailableProviders] = useState<string[]>([]);
+
+  // Grey out providers the server cannot use (e.g. Gemini without an API key)
+  useEffect(() => {
+    getOcrProviders()
+      .then(providers => {
+        const unavailable = providers.filter(p => !p.available).map(p => p.id);
+        setUnavailableProviders(unavailable);
+        const firstUsable = OCR_MODELS.find(m => !unavailable.includes(m.provider));
+        if (firstUsable) {
+          setSelectedModel(current =>
+            unavailable.includes(OCR_MODELS.find(m => m.id === current)?.provider || '') ? firstUsable.id : current
+          );
+        }
+      })
+      .catch(e => console.warn("Could not load OCR providers", e));
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -44,14 +63,17 @@ const UploadView: React.FC<UploadViewProps> = ({ onFileSelect }) => {
       </div>
 
       <div className="w-full max-w-xl bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 mb-6 transition-colors">
-        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Select AI Model</label>
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Select OCR Model</label>
         <select 
           value={selectedModel}
           onChange={(e) => setSelectedModel(e.target.value as any)}
           className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-white transition-colors"
         >
-          <option value="gemini-2.5-flash">Gemini 2.5 Flash (Balanced)</option>
-          <option value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite (Faster)</option>
+          {OCR_MODELS.map(model => (
+            <option key={model.id} value={model.id} disabled={unavailableProviders.includes(model.provider)}>
+              {model.label}{unavailableProviders.includes(model.provider) ? ' - unavailable' : ''}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -1,4 +1,4 @@
-import { BlockLabel } from './types';
+import { BlockLabel, OcrModel } from './types';
 
 // The system instruction for the layout analysis model
 export const OCR_LAYOUT_PROMPT = `
@@ -36,10 +36,23 @@ Return a valid JSON object with the following structure:
 The "box_2d" should be normalized coordinates (0-1000) if possible, or 0-1 range.
 `;
 
+// OCR models offered at upload time. `provider` must match a server provider id.
+export const OCR_MODELS: { id: OcrModel; provider: string; label: string }[] = [
+  { id: 'gemini-2.5-flash', provider: 'gemini', label: 'Gemini 2.5 Flash (Balanced)' },
+  { id: 'gemini-2.5-flash-lite', provider: 'gemini', label: 'Gemini 2.5 Flash Lite (Faster)' },
+  { id: 'local-fixture', provider: 'local', label: 'Local OCR (Offline, deterministic)' },
+];
+
 export const MOCK_ID_PREFIX = 'doc_';
 
 export const EXPORT_FORMATS = [
   { label: 'Markdown (.md)', ext: 'md' },
   { label: 'Plain Text (.txt)', ext: 'txt' },
   { label: 'HTML (.html)', ext: 'html' },
+  { label: 'Word (.docx)', ext: 'docx' },
+  { label: 'OpenDocument (.odt)', ext: 'odt' },
+  { label: 'Searchable PDF (.pdf)', ext: 'pdf' },
+  { label: 'hOCR (.hocr)', ext: 'hocr' },
+  { label: 'ALTO XML (.xml)', ext: 'alto.xml' },
+  { label: 'PAGE XML (.zip)', ext: 'page.zip' },
 ];
\ No newline at end of file
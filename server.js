@@ -4,7 +4,17 @@ import fs from 'fs';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
+import { OCR_PROVIDERS, processPageWithProvider } from "./server/ocrProviders.js";
+import { createJobQueue } from "./server/jobQueue.js";
+import { SOURCE_PDF_FILENAME, clampDpi, closePdf, countPdfPages, extractPdfTextBlocks, rasterizePdfPage } from "./server/pdfImport.js";
+import { createUploadStore, UploadError } from "./server/uploads.js";
+import { createStorage } from "./server/storage/index.js";
+import { summarize } from "./server/storage/schema.js";
+import { createSearchIndex } from "./server/searchIndex.js";
+import { createRevisionStore, RevisionError } from "./server/revisions.js";
+import { createArchiveStore, ArchiveError } from "./server/archive.js";
+import { createTrash, TrashError, isTrashed } from "./server/trash.js";
 
 // Load environment variables
 dotenv.config({ path: '.env.local' });
@@ -34,44 +44,29 @@ app.use(express.static(path.join(__dirname, 'dist')));
 
 // --- API ROUTES ---
 
-const OCR_LAYOUT_PROMPT = `
-You are a highly advanced Document Layout Analysis AI. Your task is to perform OCR and layout segmentation on the provided document image.
-
-**CRITICAL INSTRUCTIONS:**
-1.  **LITERAL EXTRACTION ONLY**: Extract the text exactly as it appears in the image. **DO NOT TRANSLATE**. **DO NOT SUMMARIZE**. **DO NOT ADD COMMENTS**.
-2.  **ORIGINAL LANGUAGE**: The text must remain in the original language of the document.
-3.  **JSON ONLY**: Output strictly valid JSON. Do not include markdown formatting (like \`\`\`json) or conversational text.
-
-**Task Steps**:
-1.  **Extract Text**: Read all text in the image.
-2.  **Segment Blocks**: Group continuous text into paragraphs (MAIN_TEXT). Do not split a single paragraph into multiple blocks unless necessary (e.g., page break).
-3.  **Label Blocks**: Assign one of the following labels to each block:
-    *   **TITLE**: Titles, subtitles, section headers (usually larger font, bold, centered, or short lines at the start of sections).
-    *   **MAIN_TEXT**: The primary body content of the document.
-    *   **FOOTNOTE**: Notes usually at the bottom of the page, often starting with small numbers/superscripts (1, *, etc.) or containing bibliographic references (Ibid, Op. cit.).
-    *   **HEADER**: Repeated text at the very top (page numbers, chapter titles).
-    *   **FOOTER**: Repeated text at the very bottom (page numbers, book titles).
-    *   **CAPTION**: Text describing images or tables.
-4.  **Handling Ambiguity**: If no clear title exists, label as MAIN_TEXT. Be strict about separating HEADER and FOOTER from MAIN_TEXT.
-
-**Output Format**:
-Return a valid JSON object with the following structure:
-{
-  "blocks": [
-    {
-      "text": "The content of the block...",
-      "label": "MAIN_TEXT",
-      "box_2d": [ymin, xmin, ymax, xmax] 
-    },
-    ...
-  ]
+// Leading footnote marker: "1 ", "12. ", "[3] ", "¹ ", "* ", "† "
+const FOOTNOTE_MARKER = /^\s*\[?(\d{1,3}|[⁰¹²³⁴⁵⁶⁷⁸⁹]{1,3}|\*{1,3}|[†‡§])\]?[.)]?\s+/u;
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const FOOTNOTE_SYMBOL_SLUGS = { '*': 'star', '†': 'dagger', '‡': 'ddagger', '§': 'sect' };
+
+// Footnotes become Markdown footnote definitions ("[^1]: text"), one per marked line
+function footnoteToMarkdown(text) {
+  const lines = text.split(/\r?\n/);
+  const notes = [];
+  for (const line of lines) {
+    const match = line.match(FOOTNOTE_MARKER);
+    if (match) {
+      const marker = match[1].replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, c => String(SUPERSCRIPT_DIGITS.indexOf(c)));
+      const slug = marker.split('').map(c => FOOTNOTE_SYMBOL_SLUGS[c] || c).join('');
+      notes.push(`[^${slug}]: ${line.slice(match[0].length)}`);
+    } else if (notes.length > 0) {
+      notes[notes.length - 1] += ` ${line.trim()}`;
+    } else if (line.trim()) {
+      notes.push(line.trim());
+    }
+  }
+  return notes.map(n => `${n}\n\n`).join('');
 }
-The "box_2d" should be normalized coordinates (0-1000) if possible, or 0-1 range.
-`;
-
-const BlockLabelValues = [
-  'TITLE', 'MAIN_TEXT', 'FOOTNOTE', 'HEADER', 'FOOTER', 'CAPTION', 'UNKNOWN'
-];
 
 function blocksToMarkdown(blocks) {
   if (!Array.isArray(blocks)) return '';
@@ -82,204 +77,56 @@ function blocksToMarkdown(blocks) {
       case 'HEADER': return `_${text}_\n\n`;
       case 'FOOTER': return `_${text}_\n\n`;
       case 'CAPTION': return `*${text}*\n\n`;
-      case 'FOOTNOTE': return `^ ${text}\n\n`;
+      case 'FOOTNOTE': return footnoteToMarkdown(text);
       default: return `${text}\n\n`;
     }
   }).join('');
 }
 
-async function processPageWithGemini(base64Image, mimeType, modelName) {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("Server API Key configuration missing.");
-  }
+// Processes one stored page and writes its Markdown; the job queue handles status and retries.
+// Pages of uploaded PDFs are rasterized here and use the PDF text layer when there is one.
+async function processStoredPage(docData, pageIndex, overrides = {}) {
+  const docDir = store.documentDir(docData.id);
+  const page = docData.pages[pageIndex];
+  const pdfPath = docData.sourcePdf ? path.join(docDir, docData.sourcePdf) : null;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-    
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      blocks: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            text: { type: Type.STRING },
-            label: { 
-              type: Type.STRING, 
-              enum: BlockLabelValues 
-            },
-            box_2d: {
-              type: Type.ARRAY,
-              items: { type: Type.NUMBER },
-              description: "Bounding box [ymin, xmin, ymax, xmax] normalized 0-1000"
-            }
-          },
-          required: ["text", "label"]
-        }
-      }
-    }
-  };
+  const filename = path.basename(page.imageUrl);
+  const imagePath = path.join(docDir, filename);
 
-  const response = await ai.models.generateContent({
-    model: modelName || 'gemini-2.5-flash',
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          { text: OCR_LAYOUT_PROMPT },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image
-            }
-          }
-        ]
-      }
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: responseSchema,
-      temperature: 0.1,
-      safetySettings: [
-        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' }
-      ]
-    }
-  });
-
-  const textResponse = typeof response.text === 'function' ? response.text() : response.text;
-  
-  if (!textResponse) {
-    console.warn("Gemini returned empty text response. Returning empty blocks.");
-    return [];
-  }
-
-  try {
-    return JSON.parse(textResponse).blocks;
-  } catch (e) {
-    console.error("Failed to parse Gemini response:", textResponse);
-    throw new Error(`Invalid JSON response from Gemini: ${e.message}`);
+  if (!fs.existsSync(imagePath) && pdfPath) {
+    await fs.promises.writeFile(imagePath, await rasterizePdfPage(pdfPath, page.pageNumber, docData.rasterDpi));
   }
-}
 
-const activeProcessing = new Set();
-
-async function processDocumentBackground(docId) {
-  if (activeProcessing.has(docId)) {
-    console.log(`Document ${docId} is already being processed.`);
-    return;
+  if (!fs.existsSync(imagePath)) {
+    throw new Error(`Image file not found: ${imagePath}`);
   }
-  activeProcessing.add(docId);
-  console.log(`Starting background processing for ${docId}`);
-  
-  const docDir = path.join(DATA_DIR, docId);
-  const metadataPath = path.join(docDir, 'metadata.json');
-
-  try {
-    // Wait a bit to ensure file write is complete
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Retry logic for reading metadata
-    let docData = null;
-    for (let attempt = 0; attempt < 5; attempt++) {
-        try {
-            if (fs.existsSync(metadataPath)) {
-                const content = await fs.promises.readFile(metadataPath, 'utf-8');
-                docData = JSON.parse(content);
-                break;
-            }
-        } catch (e) {
-            console.warn(`Attempt ${attempt + 1} to read metadata failed: ${e.message}`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-    }
-
-    if (!docData) {
-        console.error(`Failed to read metadata for ${docId} after multiple attempts.`);
-        activeProcessing.delete(docId);
-        return;
-    }
-    
-    // Update status to processing if not already
-    if (docData.status !== 'processing') {
-        docData.status = 'processing';
-        await fs.promises.writeFile(metadataPath, JSON.stringify(docData, null, 2));
-    }
 
-    for (let i = 0; i < docData.pages.length; i++) {
-      // Re-read metadata to check for cancellation or updates (optional, but good practice)
-      // For now, we just process sequentially
-      
-      const page = docData.pages[i];
-      
-      if (page.status === 'completed') continue;
+  // Reprocessing with a model or prompt explicitly asks for OCR, so the text layer is skipped
+  let blocks = pdfPath && !overrides.modelName && !overrides.prompt
+    ? await extractPdfTextBlocks(pdfPath, page.pageNumber)
+    : null;
 
-      console.log(`Processing page ${i + 1}/${docData.pages.length} for ${docId}`);
+  if (!blocks) {
+    // Read image file
+    const imageBuffer = await fs.promises.readFile(imagePath);
+    const base64Image = imageBuffer.toString('base64');
+    const mimeType = path.extname(filename) === '.png' ? 'image/png' : 'image/jpeg';
 
-      try {
-        // Read image file
-        const filename = path.basename(page.imageUrl);
-        const imagePath = path.join(docDir, filename);
-        
-        if (!fs.existsSync(imagePath)) {
-            throw new Error(`Image file not found: ${imagePath}`);
-        }
-
-        const imageBuffer = await fs.promises.readFile(imagePath);
-        const base64Image = imageBuffer.toString('base64');
-        const mimeType = path.extname(filename) === '.png' ? 'image/png' : 'image/jpeg';
-
-        const blocks = await processPageWithGemini(base64Image, mimeType, docData.modelUsed);
-
-        // Update page data in memory
-        docData.pages[i].blocks = blocks;
-        docData.pages[i].status = 'completed';
-        docData.processedPages = i + 1;
-
-        // Save Markdown
-        const mdContent = blocksToMarkdown(blocks);
-        await fs.promises.writeFile(path.join(docDir, `page_${i + 1}.md`), mdContent);
-
-        // Save Metadata (incremental update)
-        await fs.promises.writeFile(metadataPath, JSON.stringify(docData, null, 2));
-
-      } catch (err) {
-        console.error(`Error processing page ${i + 1} of ${docId}:`, err);
-        docData.pages[i].status = 'error';
-        docData.processedPages = i + 1; 
-        await fs.promises.writeFile(metadataPath, JSON.stringify(docData, null, 2));
-      }
-    }
+    blocks = await processPageWithProvider(base64Image, mimeType, overrides.modelName || docData.modelUsed, overrides.prompt);
+  }
 
-    // Final status update
-    const allFailed = docData.pages.every(p => p.status === 'error');
-    docData.status = allFailed ? 'error' : 'ready';
-    await fs.promises.writeFile(metadataPath, JSON.stringify(docData, null, 2));
-    console.log(`Finished background processing for ${docId}`);
+  // Save Markdown
+  const mdContent = blocksToMarkdown(blocks);
+  await fs.promises.writeFile(path.join(docDir, `page_${pageIndex + 1}.md`), mdContent);
 
-  } catch (e) {
-    console.error(`Fatal error in background processing for ${docId}:`, e);
-    try {
-        if (fs.existsSync(metadataPath)) {
-            let currentData = JSON.parse(await fs.promises.readFile(metadataPath, 'utf-8'));
-            currentData.status = 'error';
-            await fs.promises.writeFile(metadataPath, JSON.stringify(currentData, null, 2));
-        }
-    } catch (ex) {
-        console.error("Failed to update error status", ex);
-    }
-  } finally {
-    activeProcessing.delete(docId);
-  }
+  return blocks;
 }
 
 app.post('/api/process-page', async (req, res) => {
   const { base64Image, mimeType, modelName } = req.body;
 
   try {
-    const blocks = await processPageWithGemini(base64Image, mimeType, modelName);
+    const blocks = await processPageWithProvider(base64Image, mimeType, modelName);
     
     // Try to save to Markdown file (legacy logic, kept for compatibility if needed)
     try {
@@ -297,11 +144,20 @@ app.post('/api/process-page', async (req, res) => {
     res.json({ text: JSON.stringify({ blocks }) }); // Maintain old response format for now
 
   } catch (error) {
-    console.error("Gemini API Error (Server):", error);
+    console.error("OCR Provider Error (Server):", error);
     res.status(500).json({ error: error.message });
   }
 });
 
+app.get('/api/ocr-providers', (req, res) => {
+  res.json(OCR_PROVIDERS.map(p => ({
+    id: p.id,
+    name: p.name,
+    models: p.models,
+    available: p.isAvailable()
+  })));
+});
+
 app.post('/api/generate-logo', async (req, res) => {
   if (!process.env.GEMINI_API_KEY) {
     return res.status(500).json({ error: "Server API Key configuration missing." });
@@ -349,6 +205,9 @@ app.post('/api/generate-logo', async (req, res) => {
 
 const DATA_DIR = path.join(__dirname, 'data');
 
+// In-progress uploads; dot-prefixed so document listings skip it
+const UPLOADS_DIR = path.join(DATA_DIR, '.uploads');
+
 // Ensure data directory exists
 if (!fs.existsSync(DATA_DIR)) {
   fs.mkdirSync(DATA_DIR);
@@ -357,25 +216,174 @@ if (!fs.existsSync(DATA_DIR)) {
 // Serve stored data files
 app.use('/api/data', express.static(DATA_DIR));
 
+// STORAGE_DRIVER=sqlite keeps items in data/docuclean.sqlite instead of metadata.json files
+const store = await createStorage({ dataDir: DATA_DIR });
+
+// Limits are configurable because provider rate limits differ per account
+const jobQueue = createJobQueue({
+  dataDir: DATA_DIR,
+  store,
+  runPage: processStoredPage,
+  options: {
+    globalConcurrency: Number(process.env.OCR_GLOBAL_CONCURRENCY) || undefined,
+    perDocumentConcurrency: Number(process.env.OCR_DOCUMENT_CONCURRENCY) || undefined,
+    maxRetries: process.env.OCR_MAX_RETRIES !== undefined ? Number(process.env.OCR_MAX_RETRIES) : undefined
+  }
+});
+
+const searchIndex = createSearchIndex({ store });
+const revisions = createRevisionStore({ store });
+const archives = createArchiveStore({ store, tempDir: UPLOADS_DIR });
+const trash = createTrash({ store, removeItem });
+
+// How often expired trash is looked for (it is also purged on startup)
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Documents that were being processed when they left the library (archived
+// elsewhere or put in the trash) carry on when they come back
+async function resumeProcessing(item) {
+  if (item.type !== 'file' || (item.status !== 'processing' && item.status !== 'paused')) return;
+  jobQueue.enqueue(item.id);
+  if (item.status === 'paused') await jobQueue.pause(item.id);
+}
+
+// Pages finished (or reprocessed) by the queue change what a document contains
+jobQueue.events.on('progress', (event) => {
+  if (event.type === 'page') searchIndex.invalidate(event.docId);
+});
+
+app.get('/api/jobs', (req, res) => {
+  res.json(jobQueue.list());
+});
+
+// Server-Sent Events stream of processing progress (see server/jobQueue.js for event shapes).
+// ?docId= limits the stream to one document.
+app.get('/api/events', (req, res) => {
+  const { docId } = req.query;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 3000\n\n');
+
+  const send = (event) => {
+    if (docId && event.docId !== docId) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  jobQueue.events.on('progress', send);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    jobQueue.events.off('progress', send);
+  });
+});
+
+const JOB_ACTIONS = {
+  pause: jobQueue.pause,
+  resume: jobQueue.resume,
+  cancel: jobQueue.cancel
+};
+
+app.post('/api/jobs/:id/:action', async (req, res) => {
+  const { id, action } = req.params;
+  const run = JOB_ACTIONS[action];
+  if (!run) {
+    return res.status(400).json({ error: `Unknown job action: ${action}` });
+  }
+
+  try {
+    const changed = await run(id);
+    if (!changed) {
+      return res.status(409).json({ error: `No job for ${id} that can ${action}` });
+    }
+    res.json({ success: true });
+  } catch (e) {
+    console.error(`Failed to ${action} job ${id}`, e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Lists item summaries (no pages or blocks); full items come from GET /api/documents/:id.
+// Items in the trash are listed by GET /api/trash instead.
 app.get('/api/documents', async (req, res) => {
   try {
-    const items = [];
-    const entries = await fs.promises.readdir(DATA_DIR, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const metadataPath = path.join(DATA_DIR, entry.name, 'metadata.json');
-        try {
-          const data = await fs.promises.readFile(metadataPath, 'utf-8');
-          items.push(JSON.parse(data));
-        } catch (err) {
-          console.warn(`Skipping invalid directory ${entry.name}:`, err.message);
+    res.json((await store.list()).filter(item => !isTrashed(item)));
+  } catch (e) {
+    console.error("Failed to list documents", e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+app.get('/api/documents/:id', async (req, res) => {
+  try {
+    const item = await store.read(req.params.id);
+    // Trashed items are only reachable through the trash routes
+    if (!item || isTrashed(item)) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    res.json(item);
+  } catch (e) {
+    console.error("Failed to read document", e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Full-text search over block text. ?q= is required, ?limit= caps the number of hits.
+app.get('/api/search', async (req, res) => {
+  try {
+    res.json(await searchIndex.search(req.query.q, { limit: req.query.limit }));
+  } catch (e) {
+    console.error("Search failed", e);
+    res.status(500).json({ error: e.message });
+  }
+});
+
+// Partial update for fields that don't need the full item (rename, move)
+const PATCHABLE_FIELDS = ['name', 'parentId'];
+
+// Fields only the job queue writes; saves keep the stored values
+const PROGRESS_FIELDS = ['status', 'totalPages', 'processedPages'];
+
+app.patch('/api/documents/:id', async (req, res) => {
+  try {
+    const item = await store.read(req.params.id);
+    if (!item || isTrashed(item)) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+
+    const fields = {};
+    PATCHABLE_FIELDS.forEach(field => {
+      if (req.body && field in req.body) fields[field] = req.body[field];
+    });
+    if ('name' in fields && (typeof fields.name !== 'string' || !fields.name.trim())) {
+      return res.status(400).json({ error: "Name must not be empty" });
+    }
+    if (fields.parentId !== undefined && fields.parentId !== null) {
+      const summaries = await store.list();
+      const parent = summaries.find(s => s.id === fields.parentId);
+      if (!parent || parent.type !== 'folder' || isTrashed(parent)) {
+        return res.status(400).json({ error: "Target folder not found" });
+      }
+      // Neither the item itself nor anything inside it can become its parent
+      const seen = new Set();
+      for (let ancestor = parent; ancestor && !seen.has(ancestor.id); ancestor = summaries.find(s => s.id === ancestor.parentId)) {
+        seen.add(ancestor.id);
+        if (ancestor.id === item.id) {
+          return res.status(400).json({ error: "A folder cannot be moved into itself" });
         }
       }
     }
-    res.json(items);
+
+    // Only these fields are written, so pages the job queue finishes meanwhile survive
+    const updated = await store.patch(item.id, fields);
+    res.json(summarize(updated));
   } catch (e) {
-    console.error("Failed to list documents", e);
+    console.error("Failed to update document", e);
     res.status(500).json({ error: e.message });
   }
 });
@@ -383,12 +391,17 @@ app.get('/api/documents', async (req, res) => {
 app.post('/api/documents', async (req, res) => {
   console.log("POST /api/documents hit");
   try {
-    let item = req.body;
-    if (!item || !item.id) {
+    // `revision: { note }` marks an editor save, which is kept in the revision history
+    const { startProcessing, revision, ...item } = req.body || {};
+    if (!item.id || !/^[\w-]+$/.test(item.id)) {
       return res.status(400).json({ error: "Invalid item data" });
     }
+    // The workers write pages as they finish; a save now would overwrite them with stale ones
+    if (jobQueue.isActive(item.id)) {
+      return res.status(409).json({ error: "Document is being processed" });
+    }
 
-    const docDir = path.join(DATA_DIR, item.id);
+    const docDir = store.documentDir(item.id);
     if (!fs.existsSync(docDir)) {
       await fs.promises.mkdir(docDir, { recursive: true });
     }
@@ -428,15 +441,23 @@ app.post('/api/documents', async (req, res) => {
       }
     }
 
+    const previous = item.type === 'file' ? await store.read(item.id) : null;
+    // Processing progress belongs to the job queue; a client's copy may be out of date
+    if (previous) {
+      PROGRESS_FIELDS.forEach(field => { item[field] = previous[field]; });
+    }
+
     // Save metadata (now with URLs instead of base64)
-    await fs.promises.writeFile(
-      path.join(docDir, 'metadata.json'), 
-      JSON.stringify(item, null, 2)
-    );
+    await store.write(item);
+    searchIndex.invalidate(item.id);
+
+    if (revision && item.type === 'file') {
+      await revisions.record(item, { note: revision.note, previous });
+    }
 
     // Trigger background processing if requested
-    if (item.startProcessing) {
-        processDocumentBackground(item.id).catch(err => console.error("Background processing trigger failed", err));
+    if (startProcessing) {
+        jobQueue.enqueue(item.id);
     }
 
     res.json(item); // Return the updated item
@@ -446,22 +467,363 @@ app.post('/api/documents', async (req, res) => {
   }
 });
 
-app.delete('/api/documents/:id', async (req, res) => {
+// --- REVISION ROUTES ---
+
+const sendRevisionError = (res, e, action) => {
+  if (e instanceof RevisionError) {
+    return res.status(e.status).json({ error: e.message });
+  }
+  console.error(`Failed to ${action}`, e);
+  res.status(500).json({ error: e.message });
+};
+
+// Revision summaries, newest first
+app.get('/api/documents/:id/revisions', async (req, res) => {
   try {
-    const { id } = req.params;
-    const docDir = path.join(DATA_DIR, id);
-    
-    if (fs.existsSync(docDir)) {
+    if (!(await store.exists(req.params.id))) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    res.json((await revisions.list(req.params.id)).reverse());
+  } catch (e) {
+    sendRevisionError(res, e, "list revisions");
+  }
+});
+
+app.get('/api/documents/:id/revisions/:revId', async (req, res) => {
+  try {
+    if (!(await store.exists(req.params.id))) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    res.json(await revisions.read(req.params.id, req.params.revId));
+  } catch (e) {
+    sendRevisionError(res, e, "read revision");
+  }
+});
+
+// Puts a revision's corrections back; the restore itself becomes a new revision
+app.post('/api/documents/:id/revisions/:revId/restore', async (req, res) => {
+  try {
+    const docData = await store.read(req.params.id);
+    if (!docData || docData.type !== 'file') {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    if (jobQueue.isActive(docData.id)) {
+      return res.status(409).json({ error: "Document is being processed" });
+    }
+
+    const { restored, revision } = await revisions.apply(docData, req.params.revId);
+    const saved = await store.write(restored);
+    searchIndex.invalidate(saved.id);
+    await revisions.record(saved, {
+      note: `Restored revision from ${new Date(revision.createdAt).toISOString()}`,
+      restoredFrom: revision.id
+    });
+    res.json(saved);
+  } catch (e) {
+    sendRevisionError(res, e, "restore revision");
+  }
+});
+
+// --- ARCHIVE ROUTES ---
+
+const sendArchiveError = (res, e, action) => {
+  if (e instanceof ArchiveError) {
+    return res.status(e.status).json({ error: e.message });
+  }
+  console.error(`Failed to ${action}`, e);
+  if (res.headersSent) return res.destroy();
+  res.status(500).json({ error: e.message });
+};
+
+// Lossless archive (see server/archive.js) of the items in ?ids= (comma-separated)
+// and everything inside them; without ?ids= the whole library
+app.get('/api/archive', async (req, res) => {
+  try {
+    const ids = typeof req.query.ids === 'string' && req.query.ids ? req.query.ids.split(',') : null;
+    const stream = await archives.exportArchive(ids);
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="docuclean-archive-${stamp}.zip"`);
+    stream.on('error', (e) => sendArchiveError(res, e, "write archive"));
+    stream.pipe(res);
+  } catch (e) {
+    sendArchiveError(res, e, "export archive");
+  }
+});
+
+// Imports an archive sent as the raw request body.
+// ?parentId= target folder (default: root), ?conflict= rename | skip | replace (default: rename)
+app.post('/api/archive', async (req, res) => {
+  let filePath = null;
+  try {
+    filePath = await archives.receive(req, Number(req.headers['content-length']) || 0);
+    const result = await archives.importArchive(filePath, {
+      parentId: typeof req.query.parentId === 'string' && req.query.parentId ? req.query.parentId : null,
+      conflict: req.query.conflict || 'rename',
+      removeItem
+    });
+
+    for (const item of result.items) {
+      searchIndex.invalidate(item.id);
+      await resumeProcessing(item);
+    }
+    res.json({ ...result, items: result.items.map(summarize) });
+  } catch (e) {
+    sendArchiveError(res, e, "import archive");
+  } finally {
+    if (filePath) await archives.discard(filePath).catch(() => {});
+  }
+});
+
+// --- UPLOAD ROUTES ---
+
+const uploads = createUploadStore({ uploadsDir: UPLOADS_DIR });
+
+const sendUploadError = (res, e, action) => {
+  if (e instanceof UploadError) {
+    return res.status(e.status).json({ error: e.message, ...e.details });
+  }
+  console.error(`Failed to ${action}`, e);
+  res.status(500).json({ error: e.message });
+};
+
+const IMAGE_EXTENSIONS = { 'image/jpeg': 'jpeg', 'image/png': 'png', 'image/webp': 'webp' };
+
+/**
+ * Turns a finished upload into a stored document and queues it for processing.
+ * PDFs keep the original file (pages are rasterized by the job queue); images become page 1.
+ */
+async function createDocumentFromUpload(session, filePath) {
+  const { parentId = null, model, dpi } = session.metadata;
+  const id = session.metadata.id || `doc_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+  if (!/^[\w-]+$/.test(id) || await store.exists(id) || fs.existsSync(store.documentDir(id))) {
+    throw new UploadError("Invalid or already used document id", 400);
+  }
+
+  const isPdf = session.type === 'application/pdf' || /\.pdf$/i.test(session.name);
+  const imageExtension = IMAGE_EXTENSIONS[session.type];
+  if (!isPdf && !imageExtension) {
+    throw new UploadError(`Unsupported file type: ${session.type}`, 415);
+  }
+
+  const docDir = store.documentDir(id);
+  await fs.promises.mkdir(docDir, { recursive: true });
+
+  const now = Date.now();
+  const docData = {
+    id,
+    name: session.name,
+    type: 'file',
+    parentId,
+    createdAt: now,
+    uploadDate: now,
+    status: 'processing',
+    modelUsed: model || 'gemini-2.5-flash',
+    totalPages: 1,
+    processedPages: 0,
+    pages: []
+  };
+
+  if (isPdf) {
+    const pdfPath = path.join(docDir, SOURCE_PDF_FILENAME);
+    await fs.promises.rename(filePath, pdfPath);
+
+    let pageCount;
+    try {
+      pageCount = await countPdfPages(pdfPath);
+    } catch (e) {
+      await closePdf(pdfPath);
       await fs.promises.rm(docDir, { recursive: true, force: true });
+      throw new UploadError(`Could not read PDF: ${e.message}`, 400);
     }
-    
+
+    docData.sourcePdf = SOURCE_PDF_FILENAME;
+    docData.rasterDpi = clampDpi(dpi);
+    docData.totalPages = pageCount;
+    docData.pages = Array.from({ length: pageCount }, (_, i) => ({
+      pageNumber: i + 1,
+      imageUrl: `/api/data/${id}/page_${i + 1}.jpg`,
+      blocks: [],
+      status: 'pending'
+    }));
+  } else {
+    const filename = `page_1.${imageExtension}`;
+    await fs.promises.rename(filePath, path.join(docDir, filename));
+    docData.pages = [{ pageNumber: 1, imageUrl: `/api/data/${id}/${filename}`, blocks: [], status: 'pending' }];
+  }
+
+  await store.write(docData);
+  jobQueue.enqueue(id);
+  return docData;
+}
+
+// Starts a resumable upload. Body: { name, size, type, id?, parentId?, model?, dpi? }
+app.post('/api/uploads', async (req, res) => {
+  try {
+    const { name, size, type, id, parentId, model, dpi } = req.body || {};
+    const session = await uploads.start({ name, size, type, metadata: { id, parentId, model, dpi } });
+    res.json(session);
+  } catch (e) {
+    sendUploadError(res, e, "start upload");
+  }
+});
+
+// Upload progress; also used to find the offset to resume from
+app.get('/api/uploads/:uploadId', async (req, res) => {
+  try {
+    res.json(await uploads.status(req.params.uploadId));
+  } catch (e) {
+    sendUploadError(res, e, "read upload");
+  }
+});
+
+// Appends one chunk (raw body, not parsed) starting at ?offset=
+app.put('/api/uploads/:uploadId', async (req, res) => {
+  try {
+    const session = await uploads.append(req.params.uploadId, Number(req.query.offset), req);
+    res.json(session);
+  } catch (e) {
+    req.resume(); // discard whatever is left of a rejected chunk
+    sendUploadError(res, e, "store upload chunk");
+  }
+});
+
+app.post('/api/uploads/:uploadId/complete', async (req, res) => {
+  try {
+    const { session, filePath } = await uploads.finish(req.params.uploadId);
+    const docData = await createDocumentFromUpload(session, filePath);
+    await uploads.remove(req.params.uploadId);
+    res.json(docData);
+  } catch (e) {
+    sendUploadError(res, e, "complete upload");
+  }
+});
+
+app.delete('/api/uploads/:uploadId', async (req, res) => {
+  try {
+    await uploads.remove(req.params.uploadId);
     res.json({ success: true });
   } catch (e) {
-    console.error("Failed to delete document", e);
+    sendUploadError(res, e, "cancel upload");
+  }
+});
+
+// Re-runs OCR on selected pages, optionally with another model or extra prompt instructions.
+// Only the selected pages' blocks and Markdown files are replaced.
+app.post('/api/documents/:id/reprocess', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { pages, model, prompt } = req.body || {};
+    const docData = await store.read(id);
+
+    // Folders have no pages, and trashed documents must stay out of the queue
+    if (!docData || docData.type !== 'file' || isTrashed(docData)) {
+      return res.status(404).json({ error: "Document not found" });
+    }
+    if (jobQueue.isActive(id)) {
+      return res.status(409).json({ error: "Document is already being processed" });
+    }
+
+    const pageNumbers = Array.isArray(pages) ? [...new Set(pages)] : [];
+    if (pageNumbers.length === 0 ||
+        pageNumbers.some(n => !Number.isInteger(n) || n < 1 || n > docData.pages.length)) {
+      return res.status(400).json({ error: `Pages must be page numbers between 1 and ${docData.pages.length}` });
+    }
+    if (model && !OCR_PROVIDERS.some(p => p.models.includes(model))) {
+      return res.status(400).json({ error: `Unknown OCR model: ${model}` });
+    }
+
+    const pageIndexes = pageNumbers.map(n => n - 1).sort((a, b) => a - b);
+    pageIndexes.forEach(i => { docData.pages[i].status = 'pending'; });
+    docData.status = 'processing';
+    docData.processedPages = docData.pages.filter(p => p.status === 'completed' || p.status === 'error').length;
+    await store.write(docData);
+
+    jobQueue.enqueue(id, { pages: pageIndexes, modelName: model, prompt: typeof prompt === 'string' ? prompt.trim() : undefined });
+    res.json(docData);
+  } catch (e) {
+    console.error("Failed to reprocess pages", e);
     res.status(500).json({ error: e.message });
   }
 });
 
+// --- TRASH ROUTES ---
+
+// Deletes the item and its files for good (emptying the trash, replacing on archive import)
+async function removeItem(id) {
+  jobQueue.forget(id);
+  await closePdf(path.join(store.documentDir(id), SOURCE_PDF_FILENAME));
+  await store.remove(id);
+}
+
+const sendTrashError = (res, e, action) => {
+  if (e instanceof TrashError) {
+    return res.status(e.status).json({ error: e.message });
+  }
+  console.error(`Failed to ${action}`, e);
+  res.status(500).json({ error: e.message });
+};
+
+// Moves items (and everything inside folders) to the trash; processing stops
+async function moveToTrash(ids) {
+  const trashed = await trash.moveToTrash(ids);
+  trashed.forEach(id => jobQueue.forget(id));
+  return trashed;
+}
+
+app.delete('/api/documents/:id', async (req, res) => {
+  try {
+    res.json({ success: true, trashed: await moveToTrash([req.params.id]) });
+  } catch (e) {
+    sendTrashError(res, e, "delete document");
+  }
+});
+
+// Batch delete. Body: { ids }. Folders are deleted with their contents in one request.
+app.post('/api/documents/delete', async (req, res) => {
+  try {
+    res.json({ success: true, trashed: await moveToTrash(req.body?.ids) });
+  } catch (e) {
+    sendTrashError(res, e, "delete documents");
+  }
+});
+
+// Deleted items (the folder or document the user deleted, not its contents), newest first
+app.get('/api/trash', async (req, res) => {
+  try {
+    res.json({ retentionDays: trash.retentionDays, items: await trash.list() });
+  } catch (e) {
+    sendTrashError(res, e, "list trash");
+  }
+});
+
+app.post('/api/trash/:id/restore', async (req, res) => {
+  try {
+    const restored = await trash.restore(req.params.id);
+    for (const item of restored) await resumeProcessing(item);
+    res.json(restored.map(summarize));
+  } catch (e) {
+    sendTrashError(res, e, "restore item");
+  }
+});
+
+// Deletes one trashed item (with its contents) permanently
+app.delete('/api/trash/:id', async (req, res) => {
+  try {
+    res.json({ success: true, purged: await trash.purge(req.params.id) });
+  } catch (e) {
+    sendTrashError(res, e, "purge item");
+  }
+});
+
+app.delete('/api/trash', async (req, res) => {
+  try {
+    res.json({ success: true, purged: await trash.empty() });
+  } catch (e) {
+    sendTrashError(res, e, "empty trash");
+  }
+});
+
 // Handle all other routes by serving the index.html (SPA support)
 app.get(/.*/, (req, res) => {
   const indexPath = path.join(__dirname, 'dist', 'index.html');
@@ -481,8 +843,18 @@ app.use((err, req, res, next) => {
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`Server running on port ${PORT}`);
   if (!process.env.GEMINI_API_KEY) {
-    console.warn("\x1b[33m%s\x1b[0m", "WARNING: GEMINI_API_KEY is not set in the environment! API calls will fail.");
+    console.warn("\x1b[33m%s\x1b[0m", "WARNING: GEMINI_API_KEY is not set in the environment! Gemini calls will fail; only the local OCR provider is usable.");
   } else {
     console.log("GEMINI_API_KEY is present.");
   }
-});
\ No newline at end of file
+  jobQueue.restore().catch(err => console.error("Failed to restore processing jobs", err));
+  uploads.purgeStale().catch(err => console.error("Failed to purge stale uploads", err));
+  const purgeTrash = () => trash.purgeExpired().catch(err => console.error("Failed to purge trash", err));
+  purgeTrash();
+  setInterval(purgeTrash, TRASH_PURGE_INTERVAL_MS).unref();
+});
+
+// Let pending storage writes reach the disk before exiting
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => {
+  store.flush().finally(() => process.exit(0));
+}));
\ No newline at end of file
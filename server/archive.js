@@ -0,0 +1,278 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import JSZip from 'jszip';
+import { SAFE_ID, migrateItem } from './storage/schema.js';
+
+// --- LIBRARY ARCHIVES ---
+// A single zip holding documents and folders exactly as stored, so a library (or
+// part of it) can be moved to another server:
+//
+//   manifest.json                    { format, version, createdAt, items: [{ id, type, name, parentId }] }
+//   items/<id>/item.json             the stored item (pages, blocks, corrections, saved text, details)
+//   items/<id>/files/<path>          everything in the item's directory: page images,
+//                                    source PDF, page Markdown and revision history
+//
+// Items are listed parents first, so an import can create folders before their contents.
+
+export const ARCHIVE_FORMAT = 'docuclean-archive';
+export const ARCHIVE_VERSION = 1;
+
+// What an import does with an item whose id already exists on this server
+export const CONFLICT_MODES = ['rename', 'skip', 'replace'];
+
+export class ArchiveError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Opens the file only when the zip writer gets to it, so a large library
+// doesn't hold one open file per page image while the archive streams out
+const lazyFileStream = (filePath) => Readable.from((async function* () {
+  yield* fs.createReadStream(filePath);
+})());
+
+const listFiles = async (dir, prefix = '') => {
+  if (!fs.existsSync(dir)) return [];
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...await listFiles(path.join(dir, entry.name), relative));
+    else if (entry.isFile() && !entry.name.endsWith('.tmp')) files.push(relative);
+  }
+  return files;
+};
+
+const newId = (type) => `${type === 'folder' ? 'folder' : 'doc'}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+// Each received archive gets its own directory in `tempDir` (the uploads directory),
+// so one left behind by a crash is cleared with the stale upload sessions.
+// The zip is read into memory for importing, hence a lower limit than uploads.
+export function createArchiveStore({ store, tempDir, maxArchiveSize = Number(process.env.MAX_ARCHIVE_SIZE) || 2 * 1024 ** 3 }) {
+  /**
+   * Ids of the given items and everything below them, parents first.
+   * Without `rootIds` the whole library is included.
+   */
+  const collect = async (rootIds) => {
+    // Items in the trash are left out
+    const summaries = (await store.list()).filter(s => !s.deletedAt);
+    const childrenOf = (parentId) => summaries.filter(s => (s.parentId ?? null) === parentId);
+    const ordered = [];
+    const seen = new Set();
+    const visit = (item) => {
+      if (seen.has(item.id)) return;
+      seen.add(item.id);
+      ordered.push(item);
+      childrenOf(item.id).forEach(visit);
+    };
+
+    if (!rootIds) {
+      childrenOf(null).forEach(visit);
+      // Items whose folder no longer exists would otherwise be left out
+      summaries.forEach(visit);
+    } else {
+      rootIds.forEach(id => {
+        const item = summaries.find(s => s.id === id);
+        if (!item) throw new ArchiveError(`Item not found: ${id}`, 404);
+        visit(item);
+      });
+    }
+    return ordered;
+  };
+
+  /**
+   * Builds the archive for `rootIds` (or the whole library) and returns it as a
+   * Node stream; files are read from disk as the zip is written.
+   */
+  const exportArchive = async (rootIds) => {
+    const summaries = await collect(rootIds);
+    const zip = new JSZip();
+    const manifestItems = [];
+
+    for (const summary of summaries) {
+      const item = await store.read(summary.id);
+      if (!item) continue;
+      const parentId = item.parentId ?? null;
+      manifestItems.push({ id: item.id, type: item.type, name: item.name, parentId });
+      zip.file(`items/${item.id}/item.json`, JSON.stringify(item, null, 2));
+
+      const dir = store.documentDir(item.id);
+      for (const file of await listFiles(dir)) {
+        // The filesystem driver keeps the item itself in the directory; item.json has it already
+        if (file === 'metadata.json') continue;
+        zip.file(`items/${item.id}/files/${file}`, lazyFileStream(path.join(dir, file)));
+      }
+    }
+
+    zip.file('manifest.json', JSON.stringify({
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: Date.now(),
+      items: manifestItems
+    }, null, 2));
+
+    // Page images are already compressed
+    return zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'STORE' });
+  };
+
+  /**
+   * Streams an archive sent by a client to a temporary file, refusing it once it
+   * grows past `maxArchiveSize`. Returns the file's path; pass it to discard() when done.
+   */
+  const receive = async (stream, declaredSize) => {
+    if (declaredSize > maxArchiveSize) {
+      throw new ArchiveError(`Archive exceeds the ${maxArchiveSize} byte limit`, 413);
+    }
+    const dir = path.join(tempDir, `archive-${crypto.randomUUID()}`);
+    await fs.promises.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, 'archive.zip');
+
+    let received = 0;
+    try {
+      await pipeline(stream, async function* (source) {
+        for await (const chunk of source) {
+          received += chunk.length;
+          if (received > maxArchiveSize) {
+            throw new ArchiveError(`Archive exceeds the ${maxArchiveSize} byte limit`, 413);
+          }
+          yield chunk;
+        }
+      }, fs.createWriteStream(filePath));
+    } catch (e) {
+      await discard(filePath);
+      throw e;
+    }
+    return filePath;
+  };
+
+  const discard = (filePath) => fs.promises.rm(path.dirname(filePath), { recursive: true, force: true });
+
+  const readManifest = async (zip) => {
+    const entry = zip.file('manifest.json');
+    if (!entry) throw new ArchiveError("Not a DocuClean archive: manifest.json is missing", 400);
+    let manifest;
+    try {
+      manifest = JSON.parse(await entry.async('string'));
+    } catch (e) {
+      throw new ArchiveError("Archive manifest is not valid JSON", 400);
+    }
+    if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+      throw new ArchiveError("Not a DocuClean archive", 400);
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+      throw new ArchiveError(`Archive version ${manifest.version} is newer than this server supports`, 400);
+    }
+    return manifest;
+  };
+
+  /**
+   * Imports an archive from a file written by receive(). Items whose folder is not in
+   * the archive are placed in `parentId`. Ids that already exist are handled per
+   * `conflict`: 'rename' gives the imported item a new id, 'skip' keeps the
+   * existing item, 'replace' deletes it first (through `removeItem`).
+   * Returns the imported items and the id changes made.
+   */
+  const importArchive = async (filePath, { parentId = null, conflict = 'rename', removeItem }) => {
+    if (!CONFLICT_MODES.includes(conflict)) {
+      throw new ArchiveError(`Conflict mode must be one of ${CONFLICT_MODES.join(', ')}`, 400);
+    }
+    if (parentId !== null && (await store.read(parentId))?.type !== 'folder') {
+      throw new ArchiveError("Target folder not found", 404);
+    }
+
+    let zip;
+    try {
+      zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+    } catch (e) {
+      throw new ArchiveError("Archive is not a valid zip file", 400);
+    }
+    const manifest = await readManifest(zip);
+    const archivedIds = new Set(manifest.items.map(entry => entry.id));
+
+    // Decide every item's id first so parent links can be rewritten
+    const idMap = new Map();
+    const skipped = [];
+    for (const entry of manifest.items) {
+      if (typeof entry.id !== 'string' || !SAFE_ID.test(entry.id) || idMap.has(entry.id)) {
+        throw new ArchiveError(`Invalid item id in archive: ${entry.id}`, 400);
+      }
+      const taken = await store.exists(entry.id) || fs.existsSync(store.documentDir(entry.id));
+      if (!taken || conflict === 'replace') {
+        idMap.set(entry.id, entry.id);
+      } else if (conflict === 'rename') {
+        idMap.set(entry.id, newId(entry.type));
+      } else {
+        skipped.push(entry.id);
+      }
+    }
+    // A replaced folder must not end up inside itself
+    if (conflict === 'replace' && parentId && archivedIds.has(parentId)) {
+      throw new ArchiveError("Cannot replace the folder the archive is being imported into", 409);
+    }
+
+    const imported = [];
+    for (const entry of manifest.items) {
+      const id = idMap.get(entry.id);
+      if (!id) continue;
+
+      const itemFile = zip.file(`items/${entry.id}/item.json`);
+      if (!itemFile) throw new ArchiveError(`Archive is missing item ${entry.id}`, 400);
+      let stored;
+      try {
+        stored = JSON.parse(await itemFile.async('string'));
+      } catch (e) {
+        throw new ArchiveError(`Item ${entry.id} in the archive is not valid JSON`, 400);
+      }
+      if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+        throw new ArchiveError(`Item ${entry.id} in the archive is not valid`, 400);
+      }
+      const item = migrateItem(stored);
+
+      if (conflict === 'replace' && await store.exists(id)) await removeItem(id);
+
+      item.id = id;
+      const originalParent = item.parentId ?? null;
+      // Children of a skipped folder join the existing folder of that id
+      item.parentId = originalParent && archivedIds.has(originalParent)
+        ? (idMap.get(originalParent) || originalParent)
+        : parentId;
+      if (item.type === 'file' && Array.isArray(item.pages) && id !== entry.id) {
+        item.pages = item.pages.map(page => ({
+          ...page,
+          imageUrl: typeof page.imageUrl === 'string'
+            ? page.imageUrl.replace(`/api/data/${entry.id}/`, `/api/data/${id}/`)
+            : page.imageUrl
+        }));
+      }
+
+      const dir = store.documentDir(id);
+      await fs.promises.mkdir(dir, { recursive: true });
+      const prefix = `items/${entry.id}/files/`;
+      const files = zip.file(new RegExp(`^${prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+      for (const file of files) {
+        const target = path.resolve(dir, file.name.slice(prefix.length));
+        // Entries can't write outside the item's directory ("../" in a crafted archive)
+        if (!target.startsWith(dir + path.sep)) {
+          throw new ArchiveError(`Invalid file path in archive: ${file.name}`, 400);
+        }
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.writeFile(target, await file.async('nodebuffer'));
+      }
+
+      imported.push(await store.write(item));
+    }
+
+    return {
+      items: imported,
+      renamed: Object.fromEntries([...idMap].filter(([from, to]) => from !== to)),
+      skipped
+    };
+  };
+
+  return { exportArchive, receive, discard, importArchive };
+}
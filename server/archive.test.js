@@ -0,0 +1,53 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createArchiveStore, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './archive.js';
+import { createFilesystemStorage } from './storage/filesystemStorage.js';
+
+const folder = { id: 'folder_a', name: 'Folder', type: 'folder', parentId: null, createdAt: 1 };
+
+// Writes a zip with the given item.json contents, as receive() would have stored it
+const writeArchive = async (dir, itemJson) => {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify({
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    createdAt: 1,
+    items: [{ id: folder.id, type: folder.type, name: folder.name, parentId: null }]
+  }));
+  zip.file(`items/${folder.id}/item.json`, itemJson);
+  const filePath = path.join(dir, 'archive.zip');
+  await fs.promises.writeFile(filePath, await zip.generateAsync({ type: 'nodebuffer' }));
+  return filePath;
+};
+
+describe('archive import', () => {
+  let dataDir;
+  let archives;
+
+  beforeEach(async () => {
+    dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'docuclean-archive-'));
+    archives = createArchiveStore({ store: createFilesystemStorage({ dataDir }), tempDir: dataDir });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('imports the items listed in the manifest', async () => {
+    const filePath = await writeArchive(dataDir, JSON.stringify(folder));
+    const result = await archives.importArchive(filePath, { removeItem: async () => {} });
+    expect(result.items.map(item => item.id)).toEqual([folder.id]);
+  });
+
+  it.each([
+    ['malformed JSON', '{"id": "folder_a",'],
+    ['JSON that is not an item', '[1, 2, 3]']
+  ])('rejects an item.json with %s as a bad request', async (_case, itemJson) => {
+    const filePath = await writeArchive(dataDir, itemJson);
+    await expect(archives.importArchive(filePath, { removeItem: async () => {} }))
+      .rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,418 @@
+import path from 'path';
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+// --- PROCESSING JOB QUEUE ---
+// One job per document, scheduled page by page so several pages (and documents)
+// can be processed at once. Job state is persisted to <dataDir>/jobs.json so
+// unfinished work is picked up again after a restart.
+//
+// Progress is published on `events` ('progress'), one object per change:
+//   { type: 'page', docId, pageIndex, page, retryAt? }  - a page started, finished, failed or awaits a retry
+//   { type: 'document', docId, status, processedPages, totalPages }
+
+const DEFAULT_OPTIONS = {
+  globalConcurrency: 2,       // pages in flight across all documents
+  perDocumentConcurrency: 1,  // pages in flight per document
+  maxRetries: 5,              // attempts per page after the first failure
+  baseDelayMs: 2000,          // first retry delay, doubled on every attempt
+  maxDelayMs: 60000
+};
+
+// Job states: queued -> running -> (paused <-> running) -> done | cancelled
+const ACTIVE_STATES = ['queued', 'running', 'paused'];
+
+export function isRateLimitError(err) {
+  const status = err?.status ?? err?.code;
+  return status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(String(err?.message || ''));
+}
+
+function isTransientError(err) {
+  const status = Number(err?.status ?? err?.code);
+  return (status >= 500 && status < 600) ||
+    /ECONNRESET|ETIMEDOUT|EAI_AGAIN|fetch failed|UNAVAILABLE|overloaded|\b50[0234]\b/i.test(String(err?.message || ''));
+}
+
+/**
+ * @param {object} deps
+ * @param {string} deps.dataDir - Directory for jobs.json
+ * @param {object} deps.store - Item storage (see storage/index.js)
+ * @param {(docData: object, pageIndex: number, overrides: object) => Promise<object[]>} deps.runPage - OCRs one page, returns its blocks
+ * @param {object} [deps.options] - Overrides for DEFAULT_OPTIONS
+ */
+export function createJobQueue({ dataDir, store, runPage, options = {} }) {
+  const overrides = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined && !Number.isNaN(value))
+  );
+  const config = { ...DEFAULT_OPTIONS, ...overrides };
+  const jobsPath = path.join(dataDir, 'jobs.json');
+  const jobs = new Map(); // docId -> job
+  let activePages = 0;
+  let wakeTimer = null;
+  let persistChain = Promise.resolve();
+  const events = new EventEmitter();
+  events.setMaxListeners(0); // one listener per connected client
+
+  const newJob = (docId, state = 'queued', extra = {}) => ({
+    docId,
+    state,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    doc: null,               // in-memory DocumentData while loaded
+    loading: false,
+    forgotten: false,        // set by forget(): the document is gone, nothing may be written for it
+    inFlight: new Set(),     // page indexes being processed right now
+    pages: null,             // page indexes to (re)process; null means every unfinished page
+    overrides: {},           // { modelName, prompt } replacing the document defaults
+    attempts: {},            // pageIndex -> failed attempts so far
+    notBefore: {},           // pageIndex -> timestamp before which the page must not be retried
+    writeChain: Promise.resolve(),
+    ...extra
+  });
+
+  const serialize = (job) => ({
+    docId: job.docId,
+    state: job.state,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    pages: job.pages,
+    overrides: job.overrides,
+    attempts: job.attempts
+  });
+
+  const inScope = (job, pageIndex) => !job.pages || job.pages.includes(pageIndex);
+
+  const persistJobs = () => {
+    const snapshot = [...jobs.values()].filter(j => ACTIVE_STATES.includes(j.state)).map(serialize);
+    persistChain = persistChain
+      .then(() => writeJsonAtomic(jobsPath, snapshot))
+      .catch(err => console.error("Failed to persist job queue", err));
+    return persistChain;
+  };
+
+  const setState = (job, state) => {
+    job.state = state;
+    job.updatedAt = Date.now();
+    persistJobs();
+  };
+
+  const emitPage = (job, pageIndex, extra = {}) => {
+    if (job.forgotten) return;
+    events.emit('progress', { type: 'page', docId: job.docId, pageIndex, page: job.doc.pages[pageIndex], ...extra });
+  };
+
+  // Writes are chained per document so concurrent pages never interleave.
+  // `pageIndexes` limits the write to the pages that changed (all by default).
+  const saveDoc = (job, pageIndexes = null) => {
+    const doc = job.doc;
+    if (!doc || job.forgotten) return Promise.resolve();
+    doc.processedPages = doc.pages.filter(p => p.status === 'completed' || p.status === 'error').length;
+    events.emit('progress', {
+      type: 'document',
+      docId: job.docId,
+      status: doc.status,
+      processedPages: doc.processedPages,
+      totalPages: doc.pages.length
+    });
+    const pages = {};
+    (pageIndexes || doc.pages.map((page, i) => i)).forEach(i => { pages[i] = doc.pages[i]; });
+    job.writeChain = job.writeChain
+      // Only the fields the queue owns are patched, so edits made meanwhile (rename, move) survive
+      .then(() => store.patch(job.docId, {
+        status: doc.status,
+        totalPages: doc.pages.length,
+        processedPages: doc.processedPages
+      }, pages))
+      .catch(err => console.error(`Failed to save metadata for ${job.docId}`, err));
+    return job.writeChain;
+  };
+
+  const loadDoc = async (docId) => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      try {
+        return await store.exists(docId) ? await store.read(docId) : null;
+      } catch (e) {
+        console.warn(`Attempt ${attempt + 1} to read metadata for ${docId} failed: ${e.message}`);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    }
+    return null;
+  };
+
+  const loadJob = async (job) => {
+    job.loading = true;
+    const doc = await loadDoc(job.docId);
+    job.loading = false;
+    if (job.forgotten) return;
+
+    if (!doc) {
+      console.error(`Failed to read metadata for ${job.docId}; dropping job.`);
+      jobs.delete(job.docId);
+      persistJobs();
+      return;
+    }
+
+    // Anything not completed is (re)processed, including pages interrupted by a restart.
+    // A reprocess job runs its selected pages regardless of status and leaves the rest alone.
+    doc.pages.forEach((page, i) => {
+      if (job.pages ? inScope(job, i) : page.status !== 'completed') page.status = 'pending';
+    });
+    job.doc = doc;
+
+    if (job.state === 'cancelled') {
+      await finishCancelled(job);
+      return;
+    }
+    if (job.state === 'queued') setState(job, 'running');
+    doc.status = job.state === 'paused' ? 'paused' : 'processing';
+    await saveDoc(job);
+    console.log(`Starting background processing for ${job.docId}`);
+    pump();
+  };
+
+  const remainingPages = (job) => job.doc.pages.filter((p, i) =>
+    inScope(job, i) && p.status !== 'completed' && p.status !== 'error'
+  );
+
+  const finishCancelled = async (job) => {
+    const doc = job.doc;
+    doc.pages.forEach(page => {
+      if (page.status === 'processing') page.status = 'pending';
+    });
+    doc.status = doc.pages.some(p => p.status === 'completed') ? 'ready' : 'error';
+    await saveDoc(job);
+    jobs.delete(job.docId);
+    persistJobs();
+    console.log(`Cancelled processing for ${job.docId}`);
+  };
+
+  // Called whenever a page settles: finishes, pauses or cancels the job once idle
+  const settle = async (job) => {
+    if (job.inFlight.size > 0 || !job.doc || job.forgotten) return;
+
+    if (job.state === 'cancelled') {
+      await finishCancelled(job);
+    } else if (job.state === 'paused') {
+      job.doc.status = 'paused';
+      await saveDoc(job);
+    } else if (remainingPages(job).length === 0) {
+      const allFailed = job.doc.pages.every(p => p.status === 'error');
+      job.doc.status = allFailed ? 'error' : 'ready';
+      await saveDoc(job);
+      jobs.delete(job.docId);
+      persistJobs();
+      console.log(`Finished background processing for ${job.docId}`);
+    }
+  };
+
+  const retryDelay = (attempt, rateLimited) => {
+    const delay = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1) * (rateLimited ? 2 : 1));
+    return delay + Math.round(Math.random() * delay * 0.2); // jitter avoids synchronized retries
+  };
+
+  const processPage = async (job, pageIndex) => {
+    const page = job.doc.pages[pageIndex];
+    activePages++;
+    job.inFlight.add(pageIndex);
+    page.status = 'processing';
+    emitPage(job, pageIndex);
+    console.log(`Processing page ${pageIndex + 1}/${job.doc.pages.length} for ${job.docId}`);
+
+    try {
+      const blocks = await runPage(job.doc, pageIndex, job.overrides);
+      page.blocks = blocks;
+      page.status = 'completed';
+      delete page.error;
+      delete job.attempts[pageIndex];
+    } catch (err) {
+      const attempt = (job.attempts[pageIndex] || 0) + 1;
+      const rateLimited = isRateLimitError(err);
+
+      if ((rateLimited || isTransientError(err)) && attempt <= config.maxRetries && job.state !== 'cancelled') {
+        const delay = retryDelay(attempt, rateLimited);
+        console.warn(`Page ${pageIndex + 1} of ${job.docId} failed (${err.message}); retry ${attempt}/${config.maxRetries} in ${delay}ms`);
+        job.attempts[pageIndex] = attempt;
+        job.notBefore[pageIndex] = Date.now() + delay;
+        page.status = 'pending';
+        page.error = err.message;
+      } else {
+        console.error(`Error processing page ${pageIndex + 1} of ${job.docId}:`, err);
+        page.status = 'error';
+        page.error = err.message;
+      }
+      persistJobs();
+    } finally {
+      activePages--;
+      job.inFlight.delete(pageIndex);
+    }
+
+    emitPage(job, pageIndex, page.status === 'pending' ? { retryAt: job.notBefore[pageIndex] } : {});
+
+    await saveDoc(job, [pageIndex]);
+    await settle(job);
+    pump();
+  };
+
+  const nextPage = (now) => {
+    for (const job of jobs.values()) {
+      if (job.state !== 'running' || !job.doc) continue;
+      if (job.inFlight.size >= config.perDocumentConcurrency) continue;
+      const index = job.doc.pages.findIndex((page, i) =>
+        page.status === 'pending' && inScope(job, i) && !job.inFlight.has(i) && (job.notBefore[i] || 0) <= now
+      );
+      if (index >= 0) return { job, index };
+    }
+    return null;
+  };
+
+  // Starts as many pages as the limits allow and schedules a wake-up for delayed retries
+  function pump() {
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+
+    for (const job of jobs.values()) {
+      if (!job.doc && !job.loading && (job.state === 'queued' || job.state === 'running')) {
+        loadJob(job).catch(err => console.error(`Failed to start job for ${job.docId}`, err));
+      }
+    }
+
+    const now = Date.now();
+    while (activePages < config.globalConcurrency) {
+      const next = nextPage(now);
+      if (!next) break;
+      processPage(next.job, next.index).catch(err => console.error("Unexpected queue error", err));
+    }
+
+    const waits = [...jobs.values()]
+      .filter(j => j.state === 'running' && j.doc)
+      .flatMap(j => Object.entries(j.notBefore)
+        .filter(([i]) => j.doc.pages[i]?.status === 'pending')
+        .map(([, t]) => t));
+    if (waits.length > 0) {
+      wakeTimer = setTimeout(pump, Math.max(0, Math.min(...waits) - Date.now()) + 10);
+    }
+  }
+
+  // --- Public API ---
+
+  const isActive = (docId) => ACTIVE_STATES.includes(jobs.get(docId)?.state);
+
+  /**
+   * Queues a document for processing.
+   * @param {string} docId
+   * @param {object} [request]
+   * @param {number[]} [request.pages] - 0-based page indexes to reprocess; omit to process every unfinished page
+   * @param {string} [request.modelName] - Model to use instead of the document's modelUsed
+   * @param {string} [request.prompt] - Extra instructions for the OCR model
+   */
+  const enqueue = (docId, { pages, modelName, prompt } = {}) => {
+    const existing = jobs.get(docId);
+    if (existing && ACTIVE_STATES.includes(existing.state)) {
+      console.log(`Document ${docId} is already queued.`);
+      return existing;
+    }
+    const job = newJob(docId, 'queued', {
+      pages: pages || null,
+      overrides: Object.fromEntries(Object.entries({ modelName, prompt }).filter(([, v]) => v))
+    });
+    jobs.set(docId, job);
+    persistJobs();
+    pump();
+    return job;
+  };
+
+  const pause = async (docId) => {
+    const job = jobs.get(docId);
+    if (!job || !['queued', 'running'].includes(job.state)) return false;
+    setState(job, 'paused');
+    await settle(job);
+    return true;
+  };
+
+  const resume = async (docId) => {
+    const job = jobs.get(docId);
+    if (!job || job.state !== 'paused') return false;
+    setState(job, job.doc ? 'running' : 'queued');
+    if (job.doc) {
+      job.doc.status = 'processing';
+      await saveDoc(job);
+    }
+    pump();
+    return true;
+  };
+
+  const cancel = async (docId) => {
+    const job = jobs.get(docId);
+    if (!job) return false;
+    setState(job, 'cancelled');
+    if (!job.doc) {
+      if (job.loading) return true; // loadJob finishes the cancellation
+      job.doc = await loadDoc(docId);
+      if (!job.doc) {
+        jobs.delete(docId);
+        persistJobs();
+        return true;
+      }
+    }
+    await settle(job);
+    return true;
+  };
+
+  // Drops a job without touching the document (used when the document itself is deleted).
+  // Pages still in flight run to the end but their results are discarded.
+  const forget = (docId) => {
+    const job = jobs.get(docId);
+    if (!job) return;
+    job.state = 'cancelled';
+    job.forgotten = true;
+    jobs.delete(docId);
+    persistJobs();
+  };
+
+  const list = () => [...jobs.values()].map(job => ({
+    ...serialize(job),
+    inFlight: [...job.inFlight].map(i => i + 1),
+    processedPages: job.doc?.processedPages ?? null,
+    totalPages: job.doc?.pages.length ?? null
+  }));
+
+  /**
+   * Restores jobs after a restart: persisted jobs keep their state (paused stays paused),
+   * and documents left in 'processing' without a job are queued again.
+   */
+  const restore = async () => {
+    try {
+      if (fs.existsSync(jobsPath)) {
+        const saved = JSON.parse(await fs.promises.readFile(jobsPath, 'utf-8'));
+        for (const entry of saved) {
+          if (!ACTIVE_STATES.includes(entry.state) || !(await store.exists(entry.docId))) continue;
+          jobs.set(entry.docId, newJob(entry.docId, entry.state === 'paused' ? 'paused' : 'queued', {
+            createdAt: entry.createdAt,
+            pages: entry.pages || null,
+            overrides: entry.overrides || {},
+            attempts: entry.attempts || {}
+          }));
+        }
+      }
+    } catch (e) {
+      console.error("Failed to read persisted jobs", e);
+    }
+
+    for (const summary of await store.list()) {
+      if (summary.type === 'file' && summary.status === 'processing' && !summary.deletedAt && !jobs.has(summary.id)) {
+        jobs.set(summary.id, newJob(summary.id));
+      }
+    }
+
+    if (jobs.size > 0) {
+      console.log(`Resuming ${jobs.size} unfinished processing job(s).`);
+    }
+    persistJobs();
+    pump();
+  };
+
+  return { enqueue, isActive, pause, resume, cancel, forget, list, restore, config, events };
+}
@@ -0,0 +1,106 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJobQueue } from './jobQueue.js';
+
+const makeDocument = (id, pageCount) => ({
+  id,
+  name: `${id}.pdf`,
+  type: 'file',
+  parentId: null,
+  status: 'processing',
+  pages: Array.from({ length: pageCount }, (_, i) => ({
+    pageNumber: i + 1,
+    imageUrl: '',
+    blocks: [],
+    status: 'pending'
+  }))
+});
+
+// Just enough of the storage interface for the queue
+const createMemoryStore = (items) => {
+  const byId = new Map(items.map(item => [item.id, structuredClone(item)]));
+  return {
+    exists: async (id) => byId.has(id),
+    read: async (id) => structuredClone(byId.get(id) ?? null),
+    list: async () => [...byId.values()],
+    patch: vi.fn(async (id, fields, pages = {}) => {
+      const item = byId.get(id);
+      if (!item) return null;
+      Object.assign(item, fields);
+      Object.entries(pages).forEach(([index, page]) => { item.pages[index] = page; });
+      return item;
+    })
+  };
+};
+
+// A runPage whose calls stay in flight until released
+const createControlledRunner = () => {
+  const pending = [];
+  const runPage = vi.fn(() => new Promise(resolve => pending.push(resolve)));
+  const releaseAll = () => pending.splice(0).forEach(resolve => resolve([{ id: 'b1', text: 'done', label: 'MAIN_TEXT' }]));
+  return { runPage, releaseAll };
+};
+
+const waitFor = async (condition) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('job queue', () => {
+  let dataDir;
+
+  beforeEach(async () => {
+    dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'docuclean-jobs-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('finishes a document once every page is processed', async () => {
+    const store = createMemoryStore([makeDocument('doc_a', 2)]);
+    const { runPage, releaseAll } = createControlledRunner();
+    const queue = createJobQueue({ dataDir, store, runPage });
+
+    queue.enqueue('doc_a');
+    await waitFor(() => runPage.mock.calls.length === 1);
+    releaseAll();
+    await waitFor(() => runPage.mock.calls.length === 2);
+    releaseAll();
+    await waitFor(() => !queue.isActive('doc_a'));
+
+    const doc = await store.read('doc_a');
+    expect(doc.status).toBe('ready');
+    expect(doc.pages.every(p => p.status === 'completed')).toBe(true);
+  });
+
+  it('writes nothing for a forgotten job whose page is still in flight', async () => {
+    const store = createMemoryStore([makeDocument('doc_a', 2)]);
+    const { runPage, releaseAll } = createControlledRunner();
+    const queue = createJobQueue({ dataDir, store, runPage });
+    const events = [];
+    queue.events.on('progress', event => events.push(event));
+
+    queue.enqueue('doc_a');
+    await waitFor(() => runPage.mock.calls.length === 1);
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const writesBefore = store.patch.mock.calls.length;
+    const eventsBefore = events.length;
+
+    queue.forget('doc_a');
+    expect(queue.isActive('doc_a')).toBe(false);
+    releaseAll();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(store.patch.mock.calls.length).toBe(writesBefore);
+    expect(events.length).toBe(eventsBefore);
+    expect(runPage).toHaveBeenCalledTimes(1);
+    expect(queue.list()).toEqual([]);
+    expect(errors).not.toHaveBeenCalled();
+    errors.mockRestore();
+  });
+});
@@ -0,0 +1,193 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// --- PDF IMPORT ---
+// Uploaded PDFs are stored as-is and handled page by page by the job queue:
+// each page is rasterized for the viewer and, when the PDF carries a text layer,
+// its text is turned into TextBlocks directly instead of being sent to a model.
+
+export const SOURCE_PDF_FILENAME = 'source.pdf';
+
+export const DEFAULT_RASTER_DPI = Number(process.env.PDF_RASTER_DPI) || 150;
+const MIN_DPI = 72;
+const MAX_DPI = 600;
+
+const JPEG_QUALITY = 85;
+
+// Pages with fewer extractable characters than this are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Lines set this much larger than the page's body text become TITLE blocks
+const TITLE_SIZE_RATIO = 1.3;
+
+// Loaded documents are kept for consecutive pages of the same file
+const MAX_CACHED_DOCUMENTS = 2;
+const documentCache = new Map(); // pdfPath -> Promise<PDFDocumentProxy>
+
+export function clampDpi(dpi) {
+  const value = Number(dpi) || DEFAULT_RASTER_DPI;
+  return Math.min(MAX_DPI, Math.max(MIN_DPI, Math.round(value)));
+}
+
+function loadPdf(pdfPath) {
+  if (!documentCache.has(pdfPath)) {
+    if (documentCache.size >= MAX_CACHED_DOCUMENTS) {
+      const [oldestPath, oldest] = documentCache.entries().next().value;
+      documentCache.delete(oldestPath);
+      oldest.then(doc => doc.destroy()).catch(() => {});
+    }
+    const loading = fs.promises.readFile(pdfPath).then(data =>
+      pdfjsLib.getDocument({ data: new Uint8Array(data), disableFontFace: true, verbosity: 0 }).promise
+    );
+    loading.catch(() => documentCache.delete(pdfPath));
+    documentCache.set(pdfPath, loading);
+  }
+  return documentCache.get(pdfPath);
+}
+
+/**
+ * Releases a cached document, e.g. after its last page was processed or it was deleted.
+ */
+export async function closePdf(pdfPath) {
+  const loading = documentCache.get(pdfPath);
+  if (!loading) return;
+  documentCache.delete(pdfPath);
+  try {
+    await (await loading).destroy();
+  } catch (e) {
+    // Already failed to load; nothing to release
+  }
+}
+
+export async function countPdfPages(pdfPath) {
+  const doc = await loadPdf(pdfPath);
+  return doc.numPages;
+}
+
+/**
+ * Renders one page (1-based) to a JPEG buffer at the given DPI.
+ */
+export async function rasterizePdfPage(pdfPath, pageNumber, dpi = DEFAULT_RASTER_DPI) {
+  const doc = await loadPdf(pdfPath);
+  const page = await doc.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: clampDpi(dpi) / 72 });
+    const { canvas, context } = doc.canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    // JPEG has no alpha: paint the page background white first
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport, canvas }).promise;
+    return await canvas.encode('jpeg', JPEG_QUALITY);
+  } finally {
+    page.cleanup();
+  }
+}
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Joins two lines of the same paragraph, undoing end-of-line hyphenation
+const joinLines = (previous, next) => {
+  if (/\p{L}-$/u.test(previous) && /^\p{Ll}/u.test(next)) {
+    return previous.slice(0, -1) + next;
+  }
+  return `${previous} ${next}`;
+};
+
+/**
+ * Groups positioned text items into lines: items sharing a baseline,
+ * joined left to right with a space wherever there is a visible gap.
+ */
+function groupIntoLines(items) {
+  const sorted = [...items].sort((a, b) => a.bottom - b.bottom || a.left - b.left);
+  const lines = [];
+
+  for (const item of sorted) {
+    const line = lines.find(l => Math.abs(l.bottom - item.bottom) < item.size * 0.5 && item.left >= l.right - item.size);
+    if (line && item.left - line.right < item.size * 2) {
+      const gap = item.left - line.right;
+      line.text += (gap > item.size * 0.15 && !line.text.endsWith(' ') ? ' ' : '') + item.text;
+      line.right = Math.max(line.right, item.right);
+      line.top = Math.min(line.top, item.top);
+      line.size = Math.max(line.size, item.size);
+    } else {
+      lines.push({ ...item });
+    }
+  }
+  return lines.map(l => ({ ...l, text: l.text.replace(/\s+/g, ' ').trim() })).filter(l => l.text);
+}
+
+/**
+ * Groups lines into paragraph blocks. A line continues the block directly above it
+ * when the vertical gap is small, the font size matches and the two overlap
+ * horizontally, so side-by-side columns end up in separate blocks.
+ */
+function groupIntoBlocks(lines) {
+  const blocks = [];
+  const sorted = [...lines].sort((a, b) => a.top - b.top || a.left - b.left);
+
+  for (const line of sorted) {
+    const block = blocks.find(b => {
+      const gap = line.top - b.bottom;
+      const overlaps = line.left < b.right && line.right > b.left;
+      const sameSize = Math.abs(line.size - b.size) <= b.size * 0.2;
+      return overlaps && sameSize && gap >= -line.size * 0.5 && gap <= line.size * 0.8;
+    });
+
+    if (block) {
+      block.text = joinLines(block.text, line.text);
+      block.top = Math.min(block.top, line.top);
+      block.bottom = Math.max(block.bottom, line.bottom);
+      block.left = Math.min(block.left, line.left);
+      block.right = Math.max(block.right, line.right);
+    } else {
+      blocks.push({ ...line });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Reads the text layer of one page (1-based) into TextBlocks with boxes
+ * normalized to 0-1000. Returns null for image-only pages, which need OCR.
+ */
+export async function extractPdfTextBlocks(pdfPath, pageNumber) {
+  const doc = await loadPdf(pdfPath);
+  const page = await doc.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+
+    const items = content.items
+      .filter(item => typeof item.str === 'string' && item.str.trim())
+      .map(item => {
+        const [x, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        const size = Math.hypot(item.transform[2], item.transform[3]) || item.height || 1;
+        return { text: item.str, left: x, right: x + item.width, top: y - size, bottom: y, size };
+      });
+
+    const characterCount = items.reduce((sum, item) => sum + item.text.replace(/\s/g, '').length, 0);
+    if (characterCount < MIN_TEXT_LAYER_CHARS) return null;
+
+    const blocks = groupIntoBlocks(groupIntoLines(items));
+    const bodySize = median(blocks.map(b => b.size));
+    const scale = (value, extent) => Math.round(Math.min(1000, Math.max(0, (value / extent) * 1000)));
+
+    return blocks.map(b => ({
+      id: crypto.randomUUID(),
+      text: b.text,
+      label: b.size >= bodySize * TITLE_SIZE_RATIO ? 'TITLE' : 'MAIN_TEXT',
+      box_2d: [
+        scale(b.top, viewport.height),
+        scale(b.left, viewport.width),
+        scale(b.bottom, viewport.height),
+        scale(b.right, viewport.width)
+      ]
+    }));
+  } finally {
+    page.cleanup();
+  }
+}
@@ -0,0 +1,123 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+// --- REVISION HISTORY ---
+// Every editor save is kept as a revision of the document's editable state, so a
+// careless save can be undone. Revisions live next to the page images:
+//
+//   <documentDir>/revisions/index.json     summaries, oldest first
+//   <documentDir>/revisions/<revId>.json   full snapshot
+//
+// A snapshot holds the block corrections, the blocks of every page (box edits
+// change them) and the transcript and export settings of that save.
+
+const SNAPSHOT_FIELDS = ['blockEdits', 'savedText', 'readingOrder', 'mergeContinuations', 'footnoteMode'];
+
+export class RevisionError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const snapshotOf = (doc) => {
+  const snapshot = { pages: (doc.pages || []).map(p => ({ pageNumber: p.pageNumber, blocks: p.blocks || [] })) };
+  SNAPSHOT_FIELDS.forEach(field => {
+    if (doc[field] !== undefined) snapshot[field] = doc[field];
+  });
+  return snapshot;
+};
+
+const summarizeRevision = ({ id, createdAt, note, restoredFrom, savedText }) => ({
+  id,
+  createdAt,
+  note,
+  ...(restoredFrom ? { restoredFrom } : {}),
+  textLength: (savedText || '').length
+});
+
+export function createRevisionStore({ store }) {
+  const revisionsDir = (docId) => path.join(store.documentDir(docId), 'revisions');
+  const indexPath = (docId) => path.join(revisionsDir(docId), 'index.json');
+  const revisionPath = (docId, revId) => {
+    if (!/^[\w-]+$/.test(revId)) throw new RevisionError("Revision not found", 404);
+    return path.join(revisionsDir(docId), `${revId}.json`);
+  };
+
+  const list = async (docId) => {
+    try {
+      return JSON.parse(await fs.promises.readFile(indexPath(docId), 'utf-8'));
+    } catch (e) {
+      return [];
+    }
+  };
+
+  const read = async (docId, revId) => {
+    try {
+      return JSON.parse(await fs.promises.readFile(revisionPath(docId, revId), 'utf-8'));
+    } catch (e) {
+      if (e instanceof RevisionError) throw e;
+      throw new RevisionError("Revision not found", 404);
+    }
+  };
+
+  const append = async (docId, revision) => {
+    await fs.promises.mkdir(revisionsDir(docId), { recursive: true });
+    await writeJsonAtomic(revisionPath(docId, revision.id), revision);
+    const index = await list(docId);
+    index.push(summarizeRevision(revision));
+    await writeJsonAtomic(indexPath(docId), index);
+    return summarizeRevision(revision);
+  };
+
+  /**
+   * Records the state of `doc` as a new revision. A save that changed nothing
+   * since the latest revision (and has no note) is not recorded again.
+   * `previous` is the stored document before this save: the first time history
+   * is recorded for a document that already had corrections, that state is kept too.
+   */
+  const record = async (doc, { note = '', previous = null, restoredFrom } = {}) => {
+    const index = await list(doc.id);
+    const snapshot = snapshotOf(doc);
+
+    if (index.length === 0 && previous && (previous.blockEdits || previous.savedText)) {
+      await append(doc.id, {
+        id: crypto.randomUUID(),
+        createdAt: previous.updatedAt || previous.createdAt || Date.now(),
+        note: 'Before revision history',
+        ...snapshotOf(previous)
+      });
+    } else if (index.length > 0 && !note && !restoredFrom) {
+      const latest = await read(doc.id, index[index.length - 1].id);
+      const { id, createdAt, note: latestNote, restoredFrom: latestSource, ...latestSnapshot } = latest;
+      if (JSON.stringify(latestSnapshot) === JSON.stringify(snapshot)) return null;
+    }
+
+    return append(doc.id, {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      note: String(note).slice(0, 500),
+      ...(restoredFrom ? { restoredFrom } : {}),
+      ...snapshot
+    });
+  };
+
+  /**
+   * Applies a revision to the document: corrections and settings are replaced,
+   * and each page gets the revision's blocks back (pages added since keep theirs).
+   */
+  const apply = async (doc, revId) => {
+    const { pages, ...revision } = await read(doc.id, revId);
+    const restored = { ...doc };
+    SNAPSHOT_FIELDS.forEach(field => {
+      if (revision[field] !== undefined) restored[field] = revision[field];
+      else delete restored[field];
+    });
+    restored.pages = doc.pages.map((page, i) => pages[i] ? { ...page, blocks: pages[i].blocks } : page);
+    return { restored, revision };
+  };
+
+  return { list, read, record, apply };
+}
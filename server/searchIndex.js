@@ -0,0 +1,199 @@
+// --- FULL-TEXT SEARCH ---
+// An in-memory inverted index over block text (with the user's corrections applied)
+// and, for documents saved before block editing, over the saved transcript.
+// Documents are (re)indexed lazily on the next search after they change:
+// new and deleted items are picked up from the storage listing, content changes
+// are reported with invalidate(docId).
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Characters of context shown around the first match
+const SNIPPET_RADIUS = 80;
+
+// Blocks labelled as titles rank above body text with the same matches
+const TITLE_BOOST = 2;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Case- and accent-insensitive form used for both indexing and queries
+const normalize = (word) => word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const tokenize = (text) => [...text.matchAll(WORD)].map(m => ({
+  token: normalize(m[0]),
+  start: m.index,
+  end: m.index + m[0].length
+}));
+
+// Same rule as applyBlockEdits on the client: corrections override the OCR output
+const effectiveBlocks = (page, blockEdits = {}) => (page.blocks || []).map(block => {
+  const edit = blockEdits[block.id];
+  return edit ? { ...block, text: edit.text ?? block.text, label: edit.label ?? block.label } : block;
+});
+
+/**
+ * Builds the searchable entries of one document: one per block with text, plus
+ * the paragraphs of a legacy transcript that no block already covers.
+ */
+function documentEntries(doc) {
+  const entries = [];
+  const blockTexts = new Set();
+
+  (doc.pages || []).forEach((page, pageIndex) => {
+    effectiveBlocks(page, doc.blockEdits).forEach(block => {
+      if (!block.text || !block.text.trim()) return;
+      blockTexts.add(block.text.trim());
+      entries.push({
+        pageIndex,
+        pageNumber: page.pageNumber ?? pageIndex + 1,
+        blockId: block.id,
+        label: block.label,
+        text: block.text
+      });
+    });
+  });
+
+  if (doc.savedText && !doc.blockEdits) {
+    doc.savedText.split(/\n\s*\n/).map(p => p.trim()).filter(p => p && !blockTexts.has(p)).forEach(text => {
+      entries.push({ pageIndex: null, pageNumber: null, blockId: null, label: null, text });
+    });
+  }
+
+  return entries.map(entry => ({ ...entry, tokens: new Set(tokenize(entry.text).map(t => t.token)) }));
+}
+
+/**
+ * Cuts a window around the first match and returns the [start, end) ranges of
+ * every matching word inside it, relative to the snippet.
+ */
+function buildSnippet(text, queryTokens) {
+  const matches = tokenize(text).filter(t => queryTokens.some(q => t.token.startsWith(q)));
+  const first = matches[0]?.start ?? 0;
+  let start = Math.max(0, first - SNIPPET_RADIUS);
+  let end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  // Don't cut words in half
+  if (start > 0) start = text.lastIndexOf(' ', start) + 1;
+  if (end < text.length) {
+    const space = text.indexOf(' ', end);
+    end = space === -1 ? text.length : space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+  // Whitespace collapsing shifts offsets, so highlight against the final snippet
+  const body = snippet.slice(prefix.length);
+  const highlights = tokenize(body)
+    .filter(t => queryTokens.some(q => t.token.startsWith(q)))
+    .map(t => [t.start + prefix.length, t.end + prefix.length]);
+
+  return { snippet, highlights };
+}
+
+export function createSearchIndex({ store }) {
+  const documents = new Map(); // docId -> entries
+  const postings = new Map(); // token -> Set of docIds containing it
+  const stale = new Set();
+  let refreshChain = Promise.resolve();
+
+  const drop = (docId) => {
+    const entries = documents.get(docId);
+    if (!entries) return;
+    entries.forEach(entry => entry.tokens.forEach(token => {
+      const docs = postings.get(token);
+      docs?.delete(docId);
+      if (docs?.size === 0) postings.delete(token);
+    }));
+    documents.delete(docId);
+  };
+
+  const add = (doc) => {
+    const entries = documentEntries(doc);
+    documents.set(doc.id, entries);
+    entries.forEach(entry => entry.tokens.forEach(token => {
+      if (!postings.has(token)) postings.set(token, new Set());
+      postings.get(token).add(doc.id);
+    }));
+  };
+
+  // Brings the index in line with storage; returns the current summaries by id
+  const syncWithStore = async () => {
+    const summaries = new Map((await store.list())
+      .filter(item => item.type === 'file' && !item.deletedAt)
+      .map(item => [item.id, item]));
+
+    for (const docId of documents.keys()) {
+      if (!summaries.has(docId)) drop(docId);
+    }
+    for (const docId of summaries.keys()) {
+      if (documents.has(docId) && !stale.has(docId)) continue;
+      stale.delete(docId);
+      drop(docId);
+      const doc = await store.read(docId);
+      if (doc) add(doc);
+    }
+    return summaries;
+  };
+
+  // Concurrent searches share one refresh at a time so a document is never indexed twice
+  const refresh = () => {
+    const run = refreshChain.then(syncWithStore);
+    refreshChain = run.catch(() => {});
+    return run;
+  };
+
+  // Marks a document whose pages, edits or transcript changed
+  const invalidate = (docId) => stale.add(docId);
+
+  /**
+   * Every query word must appear in the same block; the last one may be
+   * unfinished (prefix match) so results update while typing.
+   */
+  const search = async (query, { limit = DEFAULT_LIMIT } = {}) => {
+    const queryTokens = tokenize(String(query || '')).map(t => t.token);
+    if (queryTokens.length === 0) return { total: 0, results: [] };
+
+    const summaries = await refresh();
+    const lastToken = queryTokens[queryTokens.length - 1];
+    const tokenMatches = (token, i) => i === queryTokens.length - 1 ? token.startsWith(lastToken) : token === queryTokens[i];
+
+    // Narrow down to documents holding every word before looking at blocks
+    let candidates = null;
+    queryTokens.forEach((queryToken, i) => {
+      const docs = new Set();
+      for (const [token, docIds] of postings) {
+        if (tokenMatches(token, i)) docIds.forEach(id => docs.add(id));
+      }
+      candidates = candidates ? new Set([...candidates].filter(id => docs.has(id))) : docs;
+    });
+
+    const hits = [];
+    for (const docId of candidates) {
+      documents.get(docId).forEach(entry => {
+        const tokens = [...entry.tokens];
+        if (!queryTokens.every((q, i) => tokens.some(token => tokenMatches(token, i)))) return;
+        const { snippet, highlights } = buildSnippet(entry.text, queryTokens);
+        hits.push({
+          docId,
+          docName: summaries.get(docId)?.name || docId,
+          pageIndex: entry.pageIndex,
+          pageNumber: entry.pageNumber,
+          blockId: entry.blockId,
+          label: entry.label,
+          snippet,
+          highlights,
+          score: highlights.length * (entry.label === 'TITLE' ? TITLE_BOOST : 1)
+        });
+      });
+    }
+
+    hits.sort((a, b) =>
+      b.score - a.score ||
+      a.docName.localeCompare(b.docName) ||
+      (a.pageIndex ?? Infinity) - (b.pageIndex ?? Infinity)
+    );
+    const max = Math.min(MAX_LIMIT, Math.max(1, Number(limit) || DEFAULT_LIMIT));
+    return { total: hits.length, results: hits.slice(0, max) };
+  };
+
+  return { search, invalidate };
+}
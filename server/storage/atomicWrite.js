@@ -0,0 +1,29 @@
+import fs from 'fs';
+import crypto from 'crypto';
+
+/**
+ * Writes through a temporary file that is flushed to disk and then renamed over
+ * the target, so a crash mid-write leaves either the old or the new file, never
+ * a truncated one.
+ */
+export async function writeFileAtomic(filePath, data) {
+  // Unique per write: concurrent writes to the same file must not share a temporary file
+  const tmpPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    const handle = await fs.promises.open(tmpPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (e) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw e;
+  }
+}
+
+export function writeJsonAtomic(filePath, data) {
+  return writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
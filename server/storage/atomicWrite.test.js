@@ -0,0 +1,27 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeFileAtomic } from './atomicWrite.js';
+
+describe('writeFileAtomic', () => {
+  let dir;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'docuclean-atomic-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('survives concurrent writes to the same file and keeps one complete version', async () => {
+    const filePath = path.join(dir, 'index.json');
+    const versions = Array.from({ length: 20 }, (_, i) => `version ${i} `.repeat(1000));
+
+    await Promise.all(versions.map(data => writeFileAtomic(filePath, data)));
+
+    expect(versions).toContain(await fs.promises.readFile(filePath, 'utf-8'));
+    expect(await fs.promises.readdir(dir)).toEqual(['index.json']);
+  });
+});
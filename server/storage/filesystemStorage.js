@@ -0,0 +1,134 @@
+import path from 'path';
+import fs from 'fs';
+import { writeJsonAtomic } from './atomicWrite.js';
+import { CURRENT_SCHEMA_VERSION, SAFE_ID, migrateItem, summarize } from './schema.js';
+
+// --- FILESYSTEM STORAGE ---
+// Every item (document or folder) lives in <dataDir>/<id>/metadata.json.
+// A summary of each item (no pages or blocks) is kept in <dataDir>/index.json
+// so the dashboard listing never has to open every metadata file.
+
+export function createFilesystemStorage({ dataDir }) {
+  const indexPath = path.join(dataDir, 'index.json');
+  let index = null; // Map id -> summary, loaded lazily
+  let loading = null;
+  let persistChain = Promise.resolve();
+
+  const documentDir = (id) => {
+    if (!SAFE_ID.test(id)) throw new Error(`Invalid item id: ${id}`);
+    return path.join(dataDir, id);
+  };
+  const metadataPath = (id) => path.join(documentDir(id), 'metadata.json');
+
+  const readMetadata = async (id) => {
+    try {
+      return migrateItem(JSON.parse(await fs.promises.readFile(metadataPath(id), 'utf-8')));
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const persistIndex = () => {
+    const snapshot = [...index.values()];
+    persistChain = persistChain
+      .then(() => writeJsonAtomic(indexPath, snapshot))
+      .catch(err => console.error("Failed to write document index", err));
+    return persistChain;
+  };
+
+  // Item directories are every non-hidden directory holding a metadata.json
+  const listItemDirs = async () => {
+    const entries = await fs.promises.readdir(dataDir, { withFileTypes: true });
+    return entries
+      .filter(e => e.isDirectory() && !e.name.startsWith('.') && SAFE_ID.test(e.name))
+      .map(e => e.name);
+  };
+
+  /**
+   * Loads index.json and reconciles it with the directories on disk:
+   * items added or removed behind the server's back are picked up.
+   */
+  const loadIndex = async () => {
+    if (index) return index;
+    if (!loading) {
+      loading = (async () => {
+        const loaded = new Map();
+        try {
+          const saved = JSON.parse(await fs.promises.readFile(indexPath, 'utf-8'));
+          saved.forEach(summary => loaded.set(summary.id, summary));
+        } catch (e) {
+          if (fs.existsSync(indexPath)) console.warn("Document index unreadable, rebuilding", e.message);
+        }
+
+        const dirs = await listItemDirs();
+        const present = new Set(dirs);
+        let changed = false;
+
+        for (const id of loaded.keys()) {
+          if (!present.has(id)) {
+            loaded.delete(id);
+            changed = true;
+          }
+        }
+        for (const id of dirs) {
+          if (loaded.has(id)) continue;
+          const item = await readMetadata(id);
+          if (item) {
+            loaded.set(id, summarize(item));
+            changed = true;
+          } else {
+            console.warn(`Skipping invalid directory ${id}: no readable metadata.json`);
+          }
+        }
+
+        index = loaded;
+        if (changed || !fs.existsSync(indexPath)) await persistIndex();
+        return index;
+      })().finally(() => { loading = null; });
+    }
+    return loading;
+  };
+
+  const list = async () => [...(await loadIndex()).values()];
+
+  const read = async (id) => {
+    if (!SAFE_ID.test(id)) return null;
+    return readMetadata(id);
+  };
+
+  const exists = async (id) => SAFE_ID.test(id) && fs.existsSync(metadataPath(id));
+
+  const write = async (item) => {
+    const stored = { ...item, schemaVersion: CURRENT_SCHEMA_VERSION };
+    await fs.promises.mkdir(documentDir(item.id), { recursive: true });
+    await writeJsonAtomic(metadataPath(item.id), stored);
+    (await loadIndex()).set(item.id, summarize(stored));
+    await persistIndex();
+    return stored;
+  };
+
+  // metadata.json is one file, so a patch still rewrites it whole (atomically)
+  const patch = async (id, fields, pages = {}) => {
+    const item = await read(id);
+    if (!item) return null;
+    const updated = { ...item, ...fields };
+    if (item.pages) {
+      updated.pages = item.pages.map((page, i) => pages[i] || page);
+    }
+    return write(updated);
+  };
+
+  const remove = async (id) => {
+    const dir = documentDir(id);
+    if (fs.existsSync(dir)) {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+    (await loadIndex()).delete(id);
+    await persistIndex();
+  };
+
+  // Every write is on disk once it resolves; only the index may still be pending
+  const flush = () => persistChain;
+
+  return { documentDir, list, read, exists, write, patch, remove, flush };
+}
@@ -0,0 +1,29 @@
+import { createFilesystemStorage } from './filesystemStorage.js';
+import { createSqliteStorage } from './sqliteStorage.js';
+
+// --- ITEM STORAGE ---
+// Documents and folders are persisted through one interface with interchangeable
+// drivers, picked with STORAGE_DRIVER:
+//
+//   documentDir(id)              -> directory for the item's page images and source file
+//   list()                       -> summaries of every item (no pages)
+//   read(id)                     -> full item, upgraded to the current schema, or null
+//   exists(id)                   -> boolean
+//   write(item)                  -> replaces the whole item
+//   patch(id, fields, pages)     -> merges `fields` and replaces the pages given as
+//                                   { [pageIndex]: page }; null if the item is gone
+//   remove(id)                   -> deletes the item and its directory
+//   flush()                      -> resolves once pending writes are on disk
+
+const DRIVERS = {
+  filesystem: createFilesystemStorage,
+  sqlite: createSqliteStorage
+};
+
+export async function createStorage({ dataDir, driver = process.env.STORAGE_DRIVER || 'filesystem' }) {
+  const create = DRIVERS[driver];
+  if (!create) {
+    throw new Error(`Unknown storage driver "${driver}" (expected ${Object.keys(DRIVERS).join(' or ')})`);
+  }
+  return create({ dataDir });
+}
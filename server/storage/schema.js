@@ -0,0 +1,68 @@
+// --- ITEM SCHEMA ---
+// Stored DocumentData/FolderData carry a `schemaVersion`. Items written by older
+// versions are upgraded on read by running each migration in turn; the upgraded
+// shape is persisted the next time the item is written.
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Items saved before versioning existed
+const LEGACY_SCHEMA_VERSION = 1;
+
+// migrations[n] upgrades an item from version n to n + 1
+const migrations = {
+  // v2: drop the request-only `startProcessing` flag old saves persisted, make
+  // parentId explicit and fill in page bookkeeping older documents lacked
+  1: (item) => {
+    const { startProcessing, ...upgraded } = item;
+    upgraded.parentId = upgraded.parentId ?? null;
+
+    if (upgraded.type === 'file') {
+      upgraded.pages = (upgraded.pages || []).map((page, i) => ({
+        ...page,
+        pageNumber: page.pageNumber ?? i + 1,
+        blocks: Array.isArray(page.blocks) ? page.blocks : [],
+        status: page.status || 'pending'
+      }));
+      upgraded.totalPages = upgraded.totalPages ?? upgraded.pages.length;
+      upgraded.processedPages = upgraded.processedPages ??
+        upgraded.pages.filter(p => p.status === 'completed' || p.status === 'error').length;
+      upgraded.uploadDate = upgraded.uploadDate ?? upgraded.createdAt;
+    }
+    return upgraded;
+  }
+};
+
+/**
+ * Brings a stored item up to CURRENT_SCHEMA_VERSION.
+ * Items from a newer version than this server knows are returned untouched.
+ */
+export function migrateItem(item) {
+  if (!item) return item;
+  let version = item.schemaVersion || LEGACY_SCHEMA_VERSION;
+  let upgraded = item;
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from item schema version ${version}`);
+    upgraded = migrate(upgraded);
+    version++;
+  }
+  return version === item.schemaVersion ? item : { ...upgraded, schemaVersion: version };
+}
+
+// Fields kept in listings; everything else is only returned for a single item
+const SUMMARY_FIELDS = [
+  'id', 'name', 'type', 'parentId', 'createdAt', 'uploadDate',
+  'status', 'modelUsed', 'totalPages', 'processedPages', 'updatedAt',
+  'deletedAt', 'trashRootId'
+];
+
+export function summarize(item) {
+  const summary = {};
+  SUMMARY_FIELDS.forEach(field => {
+    if (item[field] !== undefined) summary[field] = item[field];
+  });
+  return summary;
+}
+
+export const SAFE_ID = /^[\w-]+$/;
@@ -0,0 +1,218 @@
+import path from 'path';
+import fs from 'fs';
+import { createRequire } from 'module';
+import initSqlJs from 'sql.js';
+import { writeFileAtomic } from './atomicWrite.js';
+import { CURRENT_SCHEMA_VERSION, SAFE_ID, migrateItem, summarize } from './schema.js';
+import { createFilesystemStorage } from './filesystemStorage.js';
+
+// --- SQLITE STORAGE ---
+// Folders, documents and pages live in separate tables of <dataDir>/docuclean.sqlite,
+// so finishing a page updates one row instead of rewriting the whole document.
+// Page images and source PDFs stay in <dataDir>/<id>/ as with the filesystem layout.
+//
+// sql.js keeps the database in memory; it is exported to disk (atomically) shortly
+// after each change and on flush().
+
+const DATABASE_FILENAME = 'docuclean.sqlite';
+
+// Changes within this window are written to disk together
+const PERSIST_DELAY_MS = 500;
+
+// Table layout migrations, applied in order; the count applied is kept in schema_meta
+const TABLE_MIGRATIONS = [
+  `CREATE TABLE folders (
+     id TEXT PRIMARY KEY,
+     parent_id TEXT,
+     data TEXT NOT NULL,
+     schema_version INTEGER NOT NULL
+   );
+   CREATE TABLE documents (
+     id TEXT PRIMARY KEY,
+     parent_id TEXT,
+     status TEXT,
+     data TEXT NOT NULL,
+     schema_version INTEGER NOT NULL
+   );
+   CREATE TABLE pages (
+     document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+     page_index INTEGER NOT NULL,
+     data TEXT NOT NULL,
+     PRIMARY KEY (document_id, page_index)
+   );
+   CREATE INDEX folders_parent ON folders(parent_id);
+   CREATE INDEX documents_parent ON documents(parent_id);`
+];
+
+const require = createRequire(import.meta.url);
+
+export async function createSqliteStorage({ dataDir }) {
+  const dbPath = path.join(dataDir, DATABASE_FILENAME);
+  const SQL = await initSqlJs({ locateFile: (file) => require.resolve(`sql.js/dist/${file}`) });
+
+  const isNew = !fs.existsSync(dbPath);
+  const db = isNew ? new SQL.Database() : new SQL.Database(await fs.promises.readFile(dbPath));
+  // db.export() resets this, so it is turned back on after every export
+  db.run('PRAGMA foreign_keys = ON');
+
+  let persistTimer = null;
+  let persistChain = Promise.resolve();
+
+  const persist = () => {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+    const snapshot = db.export();
+    db.run('PRAGMA foreign_keys = ON');
+    persistChain = persistChain
+      .then(() => writeFileAtomic(dbPath, snapshot))
+      .catch(err => console.error("Failed to write database", err));
+    return persistChain;
+  };
+
+  const schedulePersist = () => {
+    if (!persistTimer) persistTimer = setTimeout(persist, PERSIST_DELAY_MS);
+  };
+
+  const flush = () => (persistTimer ? persist() : persistChain);
+
+  const query = (sql, params = []) => {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  const transaction = (fn) => {
+    db.run('BEGIN');
+    try {
+      fn();
+      db.run('COMMIT');
+    } catch (e) {
+      db.run('ROLLBACK');
+      throw e;
+    }
+    schedulePersist();
+  };
+
+  const migrateTables = () => {
+    db.run('CREATE TABLE IF NOT EXISTS schema_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    const [row] = query("SELECT value FROM schema_meta WHERE key = 'tables_version'");
+    const applied = row ? Number(row.value) : 0;
+    if (applied >= TABLE_MIGRATIONS.length) return;
+
+    transaction(() => {
+      TABLE_MIGRATIONS.slice(applied).forEach(sql => db.exec(sql));
+      db.run("INSERT OR REPLACE INTO schema_meta (key, value) VALUES ('tables_version', ?)", [String(TABLE_MIGRATIONS.length)]);
+    });
+    console.log(`Database tables migrated to version ${TABLE_MIGRATIONS.length}`);
+  };
+
+  const documentDir = (id) => {
+    if (!SAFE_ID.test(id)) throw new Error(`Invalid item id: ${id}`);
+    return path.join(dataDir, id);
+  };
+
+  const rowToItem = (row, pages) => {
+    const item = JSON.parse(row.data);
+    if (pages) item.pages = pages.map(p => JSON.parse(p.data));
+    return row.schema_version < CURRENT_SCHEMA_VERSION ? migrateItem(item) : item;
+  };
+
+  const list = async () => [
+    ...query('SELECT data, schema_version FROM folders'),
+    ...query('SELECT data, schema_version FROM documents')
+  ].map(row => summarize(rowToItem(row)));
+
+  const read = async (id) => {
+    const [folder] = query('SELECT data, schema_version FROM folders WHERE id = ?', [id]);
+    if (folder) return rowToItem(folder);
+    const [doc] = query('SELECT data, schema_version FROM documents WHERE id = ?', [id]);
+    if (!doc) return null;
+    return rowToItem(doc, query('SELECT data FROM pages WHERE document_id = ? ORDER BY page_index', [id]));
+  };
+
+  const exists = async (id) =>
+    query('SELECT 1 FROM folders WHERE id = ? UNION ALL SELECT 1 FROM documents WHERE id = ?', [id, id]).length > 0;
+
+  const upsertPage = (id, index, page) => {
+    db.run('INSERT OR REPLACE INTO pages (document_id, page_index, data) VALUES (?, ?, ?)', [id, index, JSON.stringify(page)]);
+  };
+
+  const write = async (item) => {
+    documentDir(item.id); // validates the id
+    const { pages, ...rest } = item;
+    const stored = { ...rest, schemaVersion: CURRENT_SCHEMA_VERSION };
+
+    transaction(() => {
+      if (item.type === 'folder') {
+        db.run('INSERT OR REPLACE INTO folders (id, parent_id, data, schema_version) VALUES (?, ?, ?, ?)',
+          [item.id, item.parentId ?? null, JSON.stringify(stored), CURRENT_SCHEMA_VERSION]);
+        return;
+      }
+      db.run(
+        `INSERT INTO documents (id, parent_id, status, data, schema_version) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET parent_id = excluded.parent_id, status = excluded.status,
+           data = excluded.data, schema_version = excluded.schema_version`,
+        [item.id, item.parentId ?? null, item.status ?? null, JSON.stringify(stored), CURRENT_SCHEMA_VERSION]
+      );
+      db.run('DELETE FROM pages WHERE document_id = ? AND page_index >= ?', [item.id, (pages || []).length]);
+      (pages || []).forEach((page, i) => upsertPage(item.id, i, page));
+    });
+    return pages ? { ...stored, pages } : stored;
+  };
+
+  // Only the changed page rows are rewritten
+  const patch = async (id, fields, pages = {}) => {
+    const [folder] = query('SELECT data FROM folders WHERE id = ?', [id]);
+    const [doc] = folder ? [] : query('SELECT data FROM documents WHERE id = ?', [id]);
+    if (!folder && !doc) return null;
+
+    const { pages: ignored, ...changes } = fields;
+    const updated = { ...JSON.parse((folder || doc).data), ...changes, schemaVersion: CURRENT_SCHEMA_VERSION };
+    transaction(() => {
+      if (folder) {
+        db.run('UPDATE folders SET parent_id = ?, data = ?, schema_version = ? WHERE id = ?',
+          [updated.parentId ?? null, JSON.stringify(updated), CURRENT_SCHEMA_VERSION, id]);
+        return;
+      }
+      db.run('UPDATE documents SET parent_id = ?, status = ?, data = ?, schema_version = ? WHERE id = ?',
+        [updated.parentId ?? null, updated.status ?? null, JSON.stringify(updated), CURRENT_SCHEMA_VERSION, id]);
+      Object.entries(pages).forEach(([index, page]) => upsertPage(id, Number(index), page));
+    });
+    return read(id);
+  };
+
+  const remove = async (id) => {
+    const dir = documentDir(id);
+    if (fs.existsSync(dir)) {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+    transaction(() => {
+      db.run('DELETE FROM folders WHERE id = ?', [id]);
+      // Not left to ON DELETE CASCADE alone, which depends on the foreign_keys pragma
+      db.run('DELETE FROM pages WHERE document_id = ?', [id]);
+      db.run('DELETE FROM documents WHERE id = ?', [id]);
+    });
+  };
+
+  migrateTables();
+
+  // First start on an existing data directory: bring over the metadata.json items
+  if (isNew && fs.existsSync(dataDir)) {
+    const legacy = createFilesystemStorage({ dataDir });
+    const summaries = await legacy.list();
+    for (const summary of summaries) {
+      const item = await legacy.read(summary.id);
+      if (item) await write(item);
+    }
+    if (summaries.length > 0) console.log(`Imported ${summaries.length} item(s) from metadata.json files`);
+  }
+  await flush();
+
+  return { documentDir, list, read, exists, write, patch, remove, flush };
+}
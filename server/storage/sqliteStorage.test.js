@@ -0,0 +1,82 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { createRequire } from 'module';
+import initSqlJs from 'sql.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSqliteStorage } from './sqliteStorage.js';
+
+const require = createRequire(import.meta.url);
+
+const makeDocument = (id, pageCount) => ({
+  id,
+  name: `${id}.pdf`,
+  type: 'file',
+  parentId: null,
+  createdAt: 1,
+  status: 'ready',
+  totalPages: pageCount,
+  processedPages: pageCount,
+  pages: Array.from({ length: pageCount }, (_, i) => ({
+    pageNumber: i + 1,
+    imageUrl: `/api/data/${id}/page_${i + 1}.png`,
+    blocks: [],
+    status: 'completed'
+  }))
+});
+
+// Reads the database as written to disk
+const countPageRows = async (dataDir, documentId) => {
+  const SQL = await initSqlJs({ locateFile: (file) => require.resolve(`sql.js/dist/${file}`) });
+  const db = new SQL.Database(await fs.promises.readFile(path.join(dataDir, 'docuclean.sqlite')));
+  try {
+    const [result] = db.exec('SELECT COUNT(*) FROM pages WHERE document_id = ?', [documentId]);
+    return result.values[0][0];
+  } finally {
+    db.close();
+  }
+};
+
+describe('sqlite storage', () => {
+  let dataDir;
+
+  beforeEach(async () => {
+    dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'docuclean-sqlite-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('round-trips a document with its pages', async () => {
+    const store = await createSqliteStorage({ dataDir });
+    await store.write(makeDocument('doc_a', 3));
+
+    const read = await store.read('doc_a');
+    expect(read.pages.map(p => p.pageNumber)).toEqual([1, 2, 3]);
+  });
+
+  it('leaves no page rows behind when a document is removed after the database was written', async () => {
+    const store = await createSqliteStorage({ dataDir });
+    await store.write(makeDocument('doc_a', 3));
+    await store.write(makeDocument('doc_b', 2));
+    // Exporting the database to disk resets sqlite's foreign_keys setting
+    await store.flush();
+
+    await store.remove('doc_a');
+    await store.flush();
+
+    expect(await store.read('doc_a')).toBeNull();
+    expect(await countPageRows(dataDir, 'doc_a')).toBe(0);
+    expect(await countPageRows(dataDir, 'doc_b')).toBe(2);
+  });
+
+  it('drops page rows past the new end when a document gets fewer pages', async () => {
+    const store = await createSqliteStorage({ dataDir });
+    await store.write(makeDocument('doc_a', 3));
+    await store.write(makeDocument('doc_a', 1));
+    await store.flush();
+
+    expect(await countPageRows(dataDir, 'doc_a')).toBe(1);
+  });
+});
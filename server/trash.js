@@ -0,0 +1,137 @@
+// --- TRASH ---
+// Deleting an item moves it, and everything inside it, to the trash: the items
+// are marked with `deletedAt` and `trashRootId` (the item the user deleted) and
+// disappear from listings, search and processing, but keep their files. A trashed
+// group is restored or deleted as a whole. Groups older than the retention period
+// are deleted permanently by purgeExpired().
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+export class TrashError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const isTrashed = (item) => !!item.deletedAt;
+
+export function createTrash({ store, removeItem, retentionDays = Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS }) {
+  const retentionMs = retentionDays * DAY_MS;
+
+  const groupOf = (summaries, rootId) => summaries.filter(s => s.trashRootId === rootId);
+
+  /**
+   * Moves the given items and their contents to the trash in one step: if any
+   * item can't be marked, the ones already marked are put back.
+   * Items inside another given item join that item's group.
+   */
+  const moveToTrash = async (ids) => {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new TrashError("No items to delete", 400);
+    }
+    const summaries = await store.list();
+    const live = summaries.filter(s => !isTrashed(s));
+    const byId = new Map(live.map(s => [s.id, s]));
+    const missing = ids.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      throw new TrashError(`Items not found: ${missing.join(', ')}`, 404);
+    }
+
+    const requested = new Set(ids);
+    const hasRequestedAncestor = (item) => {
+      for (let parentId = item.parentId; parentId; parentId = byId.get(parentId)?.parentId) {
+        if (requested.has(parentId)) return true;
+      }
+      return false;
+    };
+    const subtree = (rootId) => [rootId, ...live.filter(s => s.parentId === rootId).flatMap(child => subtree(child.id))];
+
+    const deletedAt = Date.now();
+    const marked = [];
+    try {
+      for (const rootId of [...requested].filter(id => !hasRequestedAncestor(byId.get(id)))) {
+        for (const id of subtree(rootId)) {
+          await store.patch(id, { deletedAt, trashRootId: rootId });
+          marked.push(id);
+        }
+      }
+    } catch (e) {
+      for (const id of marked) {
+        await store.patch(id, { deletedAt: undefined, trashRootId: undefined }).catch(() => {});
+      }
+      throw e;
+    }
+    return marked;
+  };
+
+  // Trashed groups, newest first: the deleted item with how much it contains
+  const list = async () => {
+    const summaries = await store.list();
+    return summaries
+      .filter(s => isTrashed(s) && s.trashRootId === s.id)
+      .map(root => {
+        const group = groupOf(summaries, root.id);
+        return {
+          ...root,
+          itemCount: group.length,
+          documentCount: group.filter(s => s.type === 'file').length,
+          purgeAt: root.deletedAt + retentionMs
+        };
+      })
+      .sort((a, b) => b.deletedAt - a.deletedAt);
+  };
+
+  /**
+   * Brings a trashed group back. If the folder it was deleted from is gone or
+   * in the trash itself, the group is restored to the root.
+   * Returns the restored items.
+   */
+  const restore = async (rootId) => {
+    const summaries = await store.list();
+    const group = groupOf(summaries, rootId);
+    if (group.length === 0) throw new TrashError("Item not found in trash", 404);
+
+    const root = group.find(s => s.id === rootId);
+    const parent = root.parentId && summaries.find(s => s.id === root.parentId);
+    const parentId = parent && !isTrashed(parent) ? parent.id : null;
+
+    const restored = [];
+    for (const item of group) {
+      restored.push(await store.patch(item.id, {
+        deletedAt: undefined,
+        trashRootId: undefined,
+        ...(item.id === rootId ? { parentId } : {})
+      }));
+    }
+    return restored.filter(Boolean);
+  };
+
+  // Deletes a trashed group permanently
+  const purge = async (rootId) => {
+    const group = groupOf(await store.list(), rootId);
+    if (group.length === 0) throw new TrashError("Item not found in trash", 404);
+    for (const item of group) {
+      await removeItem(item.id);
+    }
+    return group.length;
+  };
+
+  const empty = async () => {
+    let count = 0;
+    for (const root of await list()) count += await purge(root.id);
+    return count;
+  };
+
+  const purgeExpired = async (now = Date.now()) => {
+    let count = 0;
+    for (const root of await list()) {
+      if (root.purgeAt <= now) count += await purge(root.id);
+    }
+    if (count > 0) console.log(`Purged ${count} item(s) from the trash after ${retentionDays} days.`);
+    return count;
+  };
+
+  return { moveToTrash, list, restore, purge, empty, purgeExpired, retentionDays };
+}
@@ -0,0 +1,159 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { writeJsonAtomic } from './storage/atomicWrite.js';
+
+// --- RESUMABLE UPLOADS ---
+// Files are sent in chunks that are streamed straight to disk, so neither the
+// browser nor the server ever holds a whole scan in memory. A session survives
+// restarts: the client asks how many bytes arrived and continues from there.
+//
+//   start({ name, size, type, ... })     -> session
+//   append(uploadId, offset, stream)     -> session (with updated `received`)
+//   finish(uploadId)                     -> { session, filePath } once all bytes arrived
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+
+// Unfinished sessions older than this are removed by purgeStale()
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export class UploadError extends Error {
+  constructor(message, status, details = {}) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export function createUploadStore({ uploadsDir, maxFileSize = Number(process.env.MAX_UPLOAD_SIZE) || 4 * 1024 ** 3 }) {
+  const busy = new Set(); // sessions with a chunk being written
+
+  const sessionDir = (uploadId) => path.join(uploadsDir, uploadId);
+  const sessionPath = (uploadId) => path.join(sessionDir(uploadId), 'session.json');
+  const partPath = (uploadId) => path.join(sessionDir(uploadId), 'file.part');
+
+  const load = async (uploadId) => {
+    if (!/^[\w-]+$/.test(uploadId) || !fs.existsSync(sessionPath(uploadId))) {
+      throw new UploadError("Upload session not found", 404);
+    }
+    return JSON.parse(await fs.promises.readFile(sessionPath(uploadId), 'utf-8'));
+  };
+
+  const save = (session) => {
+    session.updatedAt = Date.now();
+    return writeJsonAtomic(sessionPath(session.uploadId), session);
+  };
+
+  /**
+   * Opens a session. `metadata` is kept as-is and handed back on finish
+   * (target folder, model, ...).
+   */
+  const start = async ({ name, size, type, metadata = {} }) => {
+    if (!name || !Number.isInteger(size) || size <= 0) {
+      throw new UploadError("An upload needs a file name and a positive size", 400);
+    }
+    if (size > maxFileSize) {
+      throw new UploadError(`File exceeds the ${maxFileSize} byte upload limit`, 413);
+    }
+
+    const session = {
+      uploadId: crypto.randomUUID(),
+      name,
+      type: type || 'application/octet-stream',
+      size,
+      received: 0,
+      chunkSize: CHUNK_SIZE,
+      metadata,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    await fs.promises.mkdir(sessionDir(session.uploadId), { recursive: true });
+    await fs.promises.writeFile(partPath(session.uploadId), '');
+    await save(session);
+    return session;
+  };
+
+  const status = (uploadId) => load(uploadId);
+
+  /**
+   * Appends one chunk. The chunk must start where the previous one ended;
+   * on a mismatch the client gets 409 with the offset to resume from.
+   */
+  const append = async (uploadId, offset, stream) => {
+    const session = await load(uploadId);
+    if (busy.has(uploadId)) {
+      throw new UploadError("Another chunk is being written", 409, { received: session.received });
+    }
+    if (offset !== session.received) {
+      throw new UploadError(`Expected offset ${session.received}`, 409, { received: session.received });
+    }
+
+    busy.add(uploadId);
+    try {
+      const limit = Math.min(CHUNK_SIZE, session.size - session.received);
+      let written = 0;
+
+      await new Promise((resolve, reject) => {
+        const out = fs.createWriteStream(partPath(uploadId), { flags: 'r+', start: session.received });
+        stream.on('data', (data) => {
+          written += data.length;
+          if (written > limit) {
+            stream.destroy();
+            out.destroy();
+            reject(new UploadError(`Chunk larger than ${limit} bytes`, 413, { received: session.received }));
+          }
+        });
+        stream.on('error', reject);
+        out.on('error', reject);
+        out.on('finish', resolve);
+        stream.pipe(out);
+      });
+
+      session.received += written;
+      // Drop anything a previously interrupted chunk left past the new end
+      await fs.promises.truncate(partPath(uploadId), session.received);
+      await save(session);
+      return session;
+    } catch (e) {
+      // Keep the part file consistent with the recorded offset
+      await fs.promises.truncate(partPath(uploadId), session.received).catch(() => {});
+      throw e;
+    } finally {
+      busy.delete(uploadId);
+    }
+  };
+
+  /**
+   * Checks that every byte arrived and returns the assembled file.
+   * The caller moves the file away and then calls remove().
+   */
+  const finish = async (uploadId) => {
+    const session = await load(uploadId);
+    if (session.received !== session.size) {
+      throw new UploadError(`Upload incomplete: ${session.received} of ${session.size} bytes`, 409, { received: session.received });
+    }
+    return { session, filePath: partPath(uploadId) };
+  };
+
+  const remove = async (uploadId) => {
+    if (!/^[\w-]+$/.test(uploadId)) return;
+    await fs.promises.rm(sessionDir(uploadId), { recursive: true, force: true });
+  };
+
+  const purgeStale = async () => {
+    if (!fs.existsSync(uploadsDir)) return;
+    const entries = await fs.promises.readdir(uploadsDir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      try {
+        const session = await load(entry.name);
+        if (Date.now() - session.updatedAt < STALE_AFTER_MS) continue;
+      } catch (e) {
+        // Broken session: remove it as well
+      }
+      await remove(entry.name);
+    }
+  };
+
+  return { start, status, append, finish, remove, purgeStale };
+}
@@ -0,0 +1,68 @@
+import { TextBlock } from "../types";
+
+export interface OcrProviderInfo {
+  id: string;
+  name: string;
+  models: string[];
+  available: boolean;
+}
+
+/**
+ * Runs OCR on a single page through the server's provider layer.
+ * The model identifier decides the backend (Gemini, local offline, ...).
+ */
+const processPage = async (
+  base64Image: string,
+  mimeType: string,
+  modelName: string = 'gemini-2.5-flash'
+): Promise<TextBlock[]> => {
+
+  try {
+    const response = await fetch('/api/process-page', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        base64Image,
+        mimeType,
+        modelName
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Failed to process document on server");
+    }
+
+    const data = await response.json();
+    const text = data.text;
+
+    if (!text) {
+      throw new Error("No text response from OCR provider.");
+    }
+
+    const parsed = JSON.parse(text);
+
+    // The server already normalizes blocks; keep a fallback for ids and boxes
+    return (parsed.blocks || []).map((b: any) => ({
+      ...b,
+      id: b.id || crypto.randomUUID(),
+      box_2d: b.box_2d || [0, 0, 0, 0]
+    }));
+
+  } catch (error: any) {
+    console.error("OCR Service Error:", error);
+    throw new Error(error.message || "Failed to process document");
+  }
+};
+
+const getOcrProviders = async (): Promise<OcrProviderInfo[]> => {
+  const response = await fetch('/api/ocr-providers');
+  if (!response.ok) {
+    throw new Error('Failed to fetch OCR providers');
+  }
+  return response.json();
+};
+
+export { processPage, getOcrProviders };
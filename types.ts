@@ -22,11 +22,39 @@ export interface TextBlock {
   box_2d?: number[]; // [ymin, xmin, ymax, xmax] standard Gemini normalized
 }
 
+// How blocks on a page are ordered before reconstruction
+export type ReadingOrder = 'single-column' | 'multi-column' | 'rtl';
+
+// How included FOOTNOTE blocks are exported:
+// 'inline' as plain paragraphs, 'footnotes' linked after the referencing paragraph,
+// 'endnotes' linked and collected at the end of each chapter
+export type FootnoteMode = 'inline' | 'footnotes' | 'endnotes';
+
+// A human correction stored against a single TextBlock id.
+// Only the fields the user changed are set; the original block is never mutated.
+export interface BlockEdit {
+  text?: string;
+  label?: BlockLabel;
+  updatedAt: number;
+}
+
+export type BlockEdits = Record<string, BlockEdit>;
+
+// Maps a range of the reconstructed transcript back to the block that produced it.
+// Offsets are [start, end) into the final text.
+export interface SourceMapEntry {
+  start: number;
+  end: number;
+  blockId: string;
+  pageNumber: number;
+}
+
 export interface PageData {
   pageNumber: number;
   imageUrl: string; // Base64 data URL
   blocks: TextBlock[];
   status: 'pending' | 'processing' | 'completed' | 'error';
+  error?: string; // Last processing error; a 'pending' page with an error is waiting for a retry
 }
 
 export type FileSystemItemType = 'file' | 'folder';
@@ -39,29 +67,89 @@ export interface FileSystemItem {
   createdAt: number;
 }
 
+// Bibliographic details entered in the editor; every exporter writes them out
+export interface DocumentMetadata {
+  title?: string; // Defaults to the file name when unset
+  authors?: string[];
+  language?: string; // BCP 47 tag, e.g. "en" or "es-ES"
+  year?: string;
+  publisher?: string;
+  isbn?: string;
+  doi?: string;
+  tags?: string[];
+  notes?: string;
+}
+
 export interface DocumentData extends FileSystemItem {
   type: 'file';
   uploadDate: number; // Keep for compatibility, same as createdAt
   pages: PageData[];
-  status: 'uploading' | 'processing' | 'ready' | 'error';
-  modelUsed: string;
+  status: 'uploading' | 'processing' | 'paused' | 'ready' | 'error';
+  modelUsed: string; // OCR model id, also selects the provider (see OCR_MODELS)
   // Progress tracking
   totalPages: number;
   processedPages: number;
-  // Persisted user edits
+  // Persisted user edits, keyed by TextBlock id
+  blockEdits?: BlockEdits;
+  // Layout used to order blocks; defaults to 'multi-column' when unset (see orderBlocks)
+  readingOrder?: ReadingOrder;
+  // Join paragraphs split across blocks/pages; defaults to true when unset
+  mergeContinuations?: boolean;
+  // Footnote handling for exports; defaults to 'footnotes' when unset
+  footnoteMode?: FootnoteMode;
+  // Flattened transcript of the last save (legacy documents only have this)
   savedText?: string;
+  // Original PDF kept next to the page images when the upload was a PDF
+  sourcePdf?: string;
+  // Resolution the server rasterizes PDF pages at
+  rasterDpi?: number;
+  metadata?: DocumentMetadata;
 }
 
+// Fields the editor writes back when the user saves
+export type DocumentEditorChanges = Pick<DocumentData, 'pages' | 'blockEdits' | 'savedText' | 'readingOrder' | 'mergeContinuations' | 'footnoteMode' | 'metadata'>;
+
+// A saved state of a document's editable content (see server/revisions.js)
+export interface RevisionSummary {
+  id: string;
+  createdAt: number;
+  note: string;
+  restoredFrom?: string; // Revision id this one was restored from
+  textLength: number;
+}
+
+export interface Revision extends Omit<RevisionSummary, 'textLength'>, Partial<Pick<DocumentData, 'blockEdits' | 'savedText' | 'readingOrder' | 'mergeContinuations' | 'footnoteMode'>> {
+  pages: Pick<PageData, 'pageNumber' | 'blocks'>[];
+}
+
+// Listing entry for a document: no pages, blocks or editor settings
+export type DocumentSummary = Pick<DocumentData,
+  'id' | 'name' | 'type' | 'parentId' | 'createdAt' | 'uploadDate' | 'status' | 'modelUsed' | 'totalPages' | 'processedPages'
+>;
+
 export interface FolderData extends FileSystemItem {
   type: 'folder';
 }
 
+// What the dashboard listing returns for each item
+export type ItemSummary = FolderData | DocumentSummary;
+
+// A deleted folder or document in the trash; its contents were deleted with it
+export type TrashEntry = ItemSummary & {
+  deletedAt: number;
+  itemCount: number; // The entry itself included
+  documentCount: number;
+  purgeAt: number; // When it will be deleted permanently
+};
+
 export enum AppView {
   UPLOAD = 'UPLOAD',
   DASHBOARD = 'DASHBOARD',
   EDITOR = 'EDITOR',
 }
 
+export type OcrModel = 'gemini-2.5-flash' | 'gemini-2.5-flash-lite' | 'local-fixture';
+
 export interface ProcessingOptions {
-  model: 'gemini-2.5-flash' | 'gemini-2.5-flash-lite';
+  model: OcrModel;
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+// @ts-ignore
+import JSZip from 'jszip';
+import { BlockLabel, DocumentData, DocumentSummary, ItemSummary } from '../types';
+import { getItem } from './storage';
+import {
+  applyBlockEdits,
+  blockLabelsOf,
+  generateDOCX,
+  generateEPUB,
+  generateHTML,
+  generateMarkdown,
+  reconstructWithSourceMap,
+  TranscriptStructure
+} from './reconstruction';
+
+export type BulkExportScope = 'folder' | 'selection' | 'all';
+export type BulkExportFormat = 'md' | 'html' | 'epub' | 'docx' | 'json';
+
+export interface BulkExportOptions {
+  scope: BulkExportScope;
+  format: BulkExportFormat;
+  labels: BlockLabel[];
+  // Recreate the folder tree inside the zip instead of putting every file at its root
+  mirrorFolders: boolean;
+  currentFolderId: string | null;
+  selectedIds: string[];
+}
+
+export interface BulkExportProgress {
+  done: number;
+  total: number;
+  currentName?: string;
+}
+
+export interface BulkExportResult {
+  zip: Blob;
+  exported: number;
+  failed: string[]; // Names of documents that could not be exported
+}
+
+// Characters not allowed in file names on common systems
+const UNSAFE_FILENAME = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+const safeFileName = (name: string): string => name.replace(UNSAFE_FILENAME, '_').replace(/^\.+/, '').trim() || 'untitled';
+
+/**
+ * Ready documents in scope, in listing order. Folders in scope (the current
+ * folder, selected folders, or the root) contribute everything below them.
+ */
+export const collectDocuments = (
+  items: ItemSummary[],
+  scope: BulkExportScope,
+  currentFolderId: string | null,
+  selectedIds: string[]
+): DocumentSummary[] => {
+  const inScope = new Set<string>();
+  const addTree = (parentId: string | null) => {
+    items.filter(i => i.parentId === parentId).forEach(child => {
+      if (inScope.has(child.id)) return;
+      inScope.add(child.id);
+      if (child.type === 'folder') addTree(child.id);
+    });
+  };
+
+  if (scope === 'all') {
+    addTree(null);
+  } else if (scope === 'folder') {
+    addTree(currentFolderId);
+  } else {
+    items.filter(i => selectedIds.includes(i.id)).forEach(item => {
+      inScope.add(item.id);
+      if (item.type === 'folder') addTree(item.id);
+    });
+  }
+
+  return items.filter((i): i is DocumentSummary => i.type === 'file' && i.status === 'ready' && inScope.has(i.id));
+};
+
+/**
+ * Folder names from `baseFolderId` (exclusive) down to the item's parent.
+ */
+const folderPath = (items: ItemSummary[], item: ItemSummary, baseFolderId: string | null): string[] => {
+  const path: string[] = [];
+  let parentId = item.parentId;
+  while (parentId && parentId !== baseFolderId) {
+    const folder = items.find(i => i.id === parentId);
+    if (!folder) break;
+    path.unshift(safeFileName(folder.name));
+    parentId = folder.parentId;
+  }
+  return path;
+};
+
+const EXTENSIONS: Record<BulkExportFormat, string> = { md: 'md', html: 'html', epub: 'epub', docx: 'docx', json: 'json' };
+
+/**
+ * Renders one document in `format`, with the same rules as the editor's
+ * download menu: corrections applied, the document's reading order and
+ * footnote settings, and its details as metadata.
+ */
+const renderDocument = async (doc: DocumentData, format: BulkExportFormat, labels: BlockLabel[]): Promise<Blob> => {
+  const edits = doc.blockEdits || {};
+  const metadata = doc.metadata || {};
+  const title = metadata.title || doc.name.replace(/\.[^/.]+$/, "");
+  const reconstruction = reconstructWithSourceMap(doc.pages, labels, edits, {
+    readingOrder: doc.readingOrder,
+    mergeContinuations: doc.mergeContinuations,
+    footnoteMode: doc.footnoteMode
+  });
+  // Legacy documents only have their flattened transcript, which can't be filtered by label
+  const isLegacyText = !!doc.savedText && !doc.blockEdits;
+  const text = isLegacyText ? doc.savedText as string : reconstruction.text;
+
+  switch (format) {
+    case 'html':
+      return generateHTML(text, title, metadata);
+    case 'epub':
+      return generateEPUB(text, { ...metadata, title });
+    case 'docx': {
+      const structure: TranscriptStructure = isLegacyText ? {} : { sourceMap: reconstruction.sourceMap, blockLabels: blockLabelsOf(doc.pages, edits) };
+      return generateDOCX(text, title, structure, metadata);
+    }
+    case 'json':
+      return new Blob([JSON.stringify({
+        id: doc.id,
+        name: doc.name,
+        metadata,
+        labels,
+        text,
+        pages: doc.pages.map(page => ({
+          pageNumber: page.pageNumber,
+          blocks: applyBlockEdits(page.blocks, edits).filter(block => labels.includes(block.label))
+        }))
+      }, null, 2)], { type: 'application/json' });
+    default:
+      return generateMarkdown(text, metadata);
+  }
+};
+
+/**
+ * Builds a zip of every ready document in scope. Documents are fetched and
+ * rendered one at a time, so only the generated files are held in memory,
+ * never the page images of the whole library.
+ */
+export const buildBulkExport = async (
+  items: ItemSummary[],
+  options: BulkExportOptions,
+  onProgress: (progress: BulkExportProgress) => void = () => {},
+  signal?: AbortSignal
+): Promise<BulkExportResult> => {
+  const documents = collectDocuments(items, options.scope, options.currentFolderId, options.selectedIds);
+  // The exported folder sits at the root of the zip, so paths start below it
+  const baseFolderId = options.scope === 'all' ? null : options.currentFolderId;
+  const zip = new JSZip();
+  const usedPaths = new Set<string>();
+  const failed: string[] = [];
+
+  for (const [index, summary] of documents.entries()) {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+    onProgress({ done: index, total: documents.length, currentName: summary.name });
+
+    try {
+      const doc = await getItem(summary.id) as DocumentData;
+      const blob = await renderDocument(doc, options.format, options.labels);
+
+      const directory = options.mirrorFolders ? folderPath(items, summary, baseFolderId) : [];
+      const baseName = safeFileName(summary.name.replace(/\.[^/.]+$/, ""));
+      // Same-named documents (in the same folder, or anywhere when flattened) get a counter
+      let path = [...directory, `${baseName}.${EXTENSIONS[options.format]}`].join('/');
+      for (let n = 2; usedPaths.has(path.toLowerCase()); n++) {
+        path = [...directory, `${baseName} (${n}).${EXTENSIONS[options.format]}`].join('/');
+      }
+      usedPaths.add(path.toLowerCase());
+      zip.file(path, await blob.arrayBuffer());
+    } catch (e) {
+      console.error(`Failed to export ${summary.name}`, e);
+      failed.push(summary.name);
+    }
+  }
+
+  if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+  onProgress({ done: documents.length, total: documents.length });
+  // EPUB and DOCX are zips already; compressing them again gains nothing
+  const compression = options.format === 'epub' || options.format === 'docx' ? 'STORE' : 'DEFLATE';
+  const blob = await zip.generateAsync({ type: 'blob', compression });
+  return { zip: blob, exported: documents.length - failed.length, failed };
+};
@@ -0,0 +1,123 @@
+// Side-by-side diff of two transcripts: lines are aligned first, then changed
+// line pairs are compared word by word so small corrections stand out.
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+export interface DiffRow {
+  type: 'same' | 'changed' | 'removed' | 'added';
+  left: DiffSegment[] | null; // null where the line only exists on the right
+  right: DiffSegment[] | null;
+}
+
+type Op = { type: 'same' | 'removed' | 'added'; value: string };
+
+// Above this many cells the middle part is shown as one replaced chunk instead
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence alignment of two token lists. Shared prefix and
+ * suffix are skipped before filling the table, which keeps typical edits cheap.
+ */
+function alignTokens(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: Op[] = a.slice(0, start).map(value => ({ type: 'same', value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach(value => ops.push({ type: 'removed', value }));
+    midB.forEach(value => ops.push({ type: 'added', value }));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'same', value: midA[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push({ type: 'removed', value: midA[i++] });
+      } else {
+        ops.push({ type: 'added', value: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'removed', value: midA[i++] });
+    while (j < midB.length) ops.push({ type: 'added', value: midB[j++] });
+  }
+
+  a.slice(endA).forEach(value => ops.push({ type: 'same', value }));
+  return ops;
+}
+
+// Words keep their trailing whitespace so segments join back into the original line
+const splitWords = (line: string) => line.match(/\S+\s*|\s+/g) || [];
+
+const diffWords = (before: string, after: string): { left: DiffSegment[]; right: DiffSegment[] } => {
+  const left: DiffSegment[] = [];
+  const right: DiffSegment[] = [];
+  const push = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.text += text;
+    else segments.push({ text, changed });
+  };
+
+  alignTokens(splitWords(before), splitWords(after)).forEach(op => {
+    if (op.type !== 'added') push(left, op.value, op.type === 'removed');
+    if (op.type !== 'removed') push(right, op.value, op.type === 'added');
+  });
+  return { left, right };
+};
+
+/**
+ * Aligns `before` and `after` line by line. Runs of removed and added lines are
+ * paired up as changed rows; leftovers stay removed or added.
+ */
+export function diffTexts(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flushChanges = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', ...diffWords(removed[k], added[k]) });
+    }
+    removed.slice(paired).forEach(line => rows.push({ type: 'removed', left: [{ text: line, changed: true }], right: null }));
+    added.slice(paired).forEach(line => rows.push({ type: 'added', left: null, right: [{ text: line, changed: true }] }));
+    removed = [];
+    added = [];
+  };
+
+  alignTokens(before.split('\n'), after.split('\n')).forEach(op => {
+    if (op.type === 'removed') removed.push(op.value);
+    else if (op.type === 'added') added.push(op.value);
+    else {
+      flushChanges();
+      rows.push({ type: 'same', left: [{ text: op.value, changed: false }], right: [{ text: op.value, changed: false }] });
+    }
+  });
+  flushChanges();
+  return rows;
+}
@@ -0,0 +1,113 @@
+// Footnote parsing and linking.
+// Reconstruction turns FOOTNOTE blocks into Markdown footnotes ("[^key]" references
+// plus "[^key]: text" definitions); the HTML/EPUB generators render that same syntax.
+
+export interface ParsedFootnote {
+  marker: string | null; // null for text that continues a note from a previous block/page
+  body: string;
+}
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+// "1 ", "1. ", "12) ", "[3] ", "¹ ", "* ", "† " at the start of a line
+const MARKER_AT_LINE_START = /^\s*\[?(\d{1,3}|[⁰¹²³⁴⁵⁶⁷⁸⁹]{1,3}|\*{1,3}|[†‡§])\]?[.)]?\s+/u;
+
+const SYMBOL_SLUGS: Record<string, string> = { '*': 'star', '†': 'dagger', '‡': 'ddagger', '§': 'sect' };
+
+export const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\]/g;
+export const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:\s*/;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toSuperscript = (digits: string) => digits.replace(/\d/g, d => SUPERSCRIPT_DIGITS[Number(d)]);
+
+/**
+ * Normalizes a marker so "¹", "1" and "[1]" are the same note.
+ */
+export const normalizeMarker = (marker: string): string => {
+  return marker
+    .replace(/[[\]]/g, '')
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, c => String(SUPERSCRIPT_DIGITS.indexOf(c)));
+};
+
+/**
+ * Builds a document-wide unique footnote key, e.g. page 12 note "1" -> "12-1".
+ */
+export const footnoteKey = (pageNumber: number, marker: string): string => {
+  const slug = /^\d+$/.test(marker)
+    ? marker
+    : marker.split('').map(c => SYMBOL_SLUGS[c] || 'note').join('');
+  return `${pageNumber}-${slug}`;
+};
+
+/**
+ * Splits a FOOTNOTE block into individual notes.
+ * A model often puts several notes in one block, one per line with its marker.
+ * Lines before the first marker are a continuation of the previous page's last note.
+ */
+export const parseFootnoteBlock = (text: string): ParsedFootnote[] => {
+  const notes: { marker: string | null; lines: string[] }[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(MARKER_AT_LINE_START);
+    if (match) {
+      notes.push({ marker: normalizeMarker(match[1]), lines: [line.slice(match[0].length)] });
+    } else if (notes.length > 0) {
+      notes[notes.length - 1].lines.push(line);
+    } else if (line.trim()) {
+      notes.push({ marker: null, lines: [line] });
+    }
+  });
+
+  return notes.map(n => ({ marker: n.marker, body: n.lines.join('\n') }));
+};
+
+/**
+ * Replaces the first reference to `marker` in `text` with a Markdown footnote reference.
+ * Tries, in order: superscript digits, "[1]" / "^1", then a bare marker glued to a word
+ * or punctuation ("word.1 ", "word* "). Returns null when no reference is found.
+ */
+export const linkFootnoteReference = (text: string, marker: string, key: string): string | null => {
+  const escaped = escapeRegExp(marker);
+  const patterns: RegExp[] = [];
+
+  if (/^\d+$/.test(marker)) {
+    patterns.push(new RegExp(`(?<=\\S)${toSuperscript(marker)}(?![⁰¹²³⁴⁵⁶⁷⁸⁹])`, 'u'));
+  }
+  patterns.push(new RegExp(`\\[\\^?${escaped}\\]|\\^${escaped}(?![\\d])`, 'u'));
+  patterns.push(new RegExp(`(?<=[\\p{L}.,;:!?)"”’»])${escaped}(?![\\d\\p{L}*])`, 'u'));
+
+  for (const pattern of patterns) {
+    if (pattern.test(text)) {
+      return text.replace(pattern, `[^${key}]`);
+    }
+  }
+  return null;
+};
+
+/**
+ * Assigns display numbers (1, 2, 3...) to footnote keys in order of first appearance.
+ */
+export const numberFootnotes = (text: string): Map<string, number> => {
+  const numbers = new Map<string, number>();
+  const pattern = new RegExp(FOOTNOTE_REFERENCE.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (!numbers.has(match[1])) numbers.set(match[1], numbers.size + 1);
+  }
+  return numbers;
+};
+
+/**
+ * Replaces Markdown footnote references with markup produced by `render`.
+ */
+export const renderFootnoteReferences = (
+  text: string,
+  numbers: Map<string, number>,
+  render: (key: string, n: number) => string
+): string => {
+  return text.replace(new RegExp(FOOTNOTE_REFERENCE.source, 'g'), (whole, key) => {
+    const n = numbers.get(key);
+    return n === undefined ? whole : render(key, n);
+  });
+};
@@ -0,0 +1,502 @@
+import JSZip from 'jszip';
+import { PageData, BlockLabel, BlockEdits, BlockEdit, TextBlock } from '../types';
+import { applyBlockEdits, escapeXml } from './reconstruction';
+
+// Standard OCR interchange formats: hOCR, ALTO XML (v4) and PAGE XML (2019).
+// Blocks become regions in pixel coordinates of the page image; block ids are
+// kept ("block_<id>") so a file corrected in another tool comes back as edits
+// to the same blocks.
+
+export type OcrFormat = 'hocr' | 'alto' | 'page';
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+// Region types shared by PAGE XML (TextRegion@type) and our ALTO structure tags
+const REGION_TYPES: Record<BlockLabel, string> = {
+  [BlockLabel.TITLE]: 'heading',
+  [BlockLabel.MAIN_TEXT]: 'paragraph',
+  [BlockLabel.FOOTNOTE]: 'footnote',
+  [BlockLabel.HEADER]: 'header',
+  [BlockLabel.FOOTER]: 'footer',
+  [BlockLabel.CAPTION]: 'caption',
+  [BlockLabel.UNKNOWN]: 'other'
+};
+
+// Further PAGE region types other tools produce
+const EXTRA_REGION_LABELS: Record<string, BlockLabel> = {
+  'footnote-continued': BlockLabel.FOOTNOTE,
+  'endnote': BlockLabel.FOOTNOTE,
+  'TOC-entry': BlockLabel.MAIN_TEXT,
+  'list-label': BlockLabel.MAIN_TEXT,
+  'drop-capital': BlockLabel.MAIN_TEXT
+};
+
+// hOCR has no footnote class, so the exact label also goes into an x_ property
+const HOCR_CLASSES: Record<BlockLabel, string> = {
+  [BlockLabel.TITLE]: 'ocr_title',
+  [BlockLabel.MAIN_TEXT]: 'ocr_par',
+  [BlockLabel.FOOTNOTE]: 'ocr_textfloat',
+  [BlockLabel.HEADER]: 'ocr_header',
+  [BlockLabel.FOOTER]: 'ocr_footer',
+  [BlockLabel.CAPTION]: 'ocr_caption',
+  [BlockLabel.UNKNOWN]: 'ocr_float'
+};
+const HOCR_LABEL_PROPERTY = 'x_docuclean_label';
+
+const ID_PREFIX = 'block_';
+
+const labelOfRegionType = (type: string | null, centerY: number): BlockLabel => {
+  if (!type) return BlockLabel.MAIN_TEXT;
+  const label = (Object.keys(REGION_TYPES) as BlockLabel[]).find(l => REGION_TYPES[l] === type);
+  if (label) return label;
+  if (type === 'page-number') return centerY < 500 ? BlockLabel.HEADER : BlockLabel.FOOTER;
+  return EXTRA_REGION_LABELS[type] || BlockLabel.UNKNOWN;
+};
+
+/**
+ * Natural size of a page image, needed to turn normalized boxes into pixels.
+ */
+export const loadImageSize = (url: string): Promise<PageSize> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error(`Failed to load page image ${url}`));
+    img.src = url;
+  });
+};
+
+const imageFilename = (page: PageData) => page.imageUrl.startsWith('data:')
+  ? `page_${page.pageNumber}.jpg`
+  : decodeURIComponent(page.imageUrl.split('/').pop() || '');
+
+// box_2d is [ymin, xmin, ymax, xmax] normalized 0-1000
+const toPixels = (box: number[], size: PageSize) => ({
+  x0: Math.round((box[1] / 1000) * size.width),
+  y0: Math.round((box[0] / 1000) * size.height),
+  x1: Math.round((box[3] / 1000) * size.width),
+  y1: Math.round((box[2] / 1000) * size.height)
+});
+
+const fromPixels = (x0: number, y0: number, x1: number, y1: number, size: PageSize): number[] => {
+  const scale = (value: number, extent: number) => Math.round(Math.min(1000, Math.max(0, (value / extent) * 1000)));
+  // Some tools write boxes with their corners swapped
+  return [
+    scale(Math.min(y0, y1), size.height),
+    scale(Math.min(x0, x1), size.width),
+    scale(Math.max(y0, y1), size.height),
+    scale(Math.max(x0, x1), size.width)
+  ];
+};
+
+// Blocks don't carry line geometry: lines split the block's box into equal strips
+const lineBoxes = (text: string, box: ReturnType<typeof toPixels>) => {
+  const lines = text.split('\n');
+  const step = (box.y1 - box.y0) / lines.length;
+  return lines.map((line, i) => ({
+    line,
+    x0: box.x0,
+    x1: box.x1,
+    y0: Math.round(box.y0 + i * step),
+    y1: Math.round(box.y0 + (i + 1) * step)
+  }));
+};
+
+const exportableBlocks = (page: PageData, edits: BlockEdits) =>
+  applyBlockEdits(page.blocks, edits).filter(b => b.box_2d && b.text);
+
+/**
+ * One hOCR file for the whole document, one ocr_page per page.
+ */
+export const generateHOCR = (pages: PageData[], edits: BlockEdits, sizes: PageSize[], title: string): Blob => {
+  const body = pages.map((page, i) => {
+    const size = sizes[i];
+    const blocks = exportableBlocks(page, edits).map(block => {
+      const box = toPixels(block.box_2d as number[], size);
+      const lines = lineBoxes(block.text, box).map(({ line, x0, y0, x1, y1 }, n) =>
+        `      <span class="ocr_line" id="line_${escapeXml(block.id)}_${n + 1}" title="bbox ${x0} ${y0} ${x1} ${y1}">${escapeXml(line)}</span>`
+      ).join('\n');
+      return `    <p class="${HOCR_CLASSES[block.label]}" id="${ID_PREFIX}${escapeXml(block.id)}" title="bbox ${box.x0} ${box.y0} ${box.x1} ${box.y1}; ${HOCR_LABEL_PROPERTY} ${block.label}">
+${lines}
+    </p>`;
+    }).join('\n');
+    return `  <div class="ocr_page" id="page_${page.pageNumber}" title="image &quot;${escapeXml(imageFilename(page))}&quot;; bbox 0 0 ${size.width} ${size.height}; ppageno ${page.pageNumber - 1}">
+${blocks}
+  </div>`;
+  }).join('\n');
+
+  const html = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head>
+  <title>${escapeXml(title)}</title>
+  <meta http-equiv="Content-Type" content="text/html;charset=utf-8" />
+  <meta name="ocr-system" content="DocuClean AI" />
+  <meta name="ocr-capabilities" content="ocr_page ocr_par ocr_line ${Object.values(HOCR_CLASSES).filter(c => c !== 'ocr_par').join(' ')}" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+  return new Blob([html], { type: 'text/html' });
+};
+
+/**
+ * One ALTO v4 file for the whole document. Labels are structure tags
+ * referenced from each TextBlock.
+ */
+export const generateALTO = (pages: PageData[], edits: BlockEdits, sizes: PageSize[], title: string): Blob => {
+  const tags = (Object.keys(REGION_TYPES) as BlockLabel[]).map(label =>
+    `    <StructureTag ID="LABEL_${label}" TYPE="structure" LABEL="${REGION_TYPES[label]}" />`
+  ).join('\n');
+
+  const layout = pages.map((page, i) => {
+    const size = sizes[i];
+    const blocks = exportableBlocks(page, edits).map(block => {
+      const box = toPixels(block.box_2d as number[], size);
+      const lines = lineBoxes(block.text, box).map(({ line, x0, y0, x1, y1 }) => {
+        const words = line.split(/\s+/).filter(Boolean).map(word => `<String CONTENT="${escapeXml(word)}" />`).join('<SP />');
+        return `          <TextLine HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}">${words}</TextLine>`;
+      }).join('\n');
+      return `        <TextBlock ID="${ID_PREFIX}${escapeXml(block.id)}" HPOS="${box.x0}" VPOS="${box.y0}" WIDTH="${box.x1 - box.x0}" HEIGHT="${box.y1 - box.y0}" TAGREFS="LABEL_${block.label}">
+${lines}
+        </TextBlock>`;
+    }).join('\n');
+    return `    <Page ID="page_${page.pageNumber}" PHYSICAL_IMG_NR="${page.pageNumber}" WIDTH="${size.width}" HEIGHT="${size.height}">
+      <PrintSpace HPOS="0" VPOS="0" WIDTH="${size.width}" HEIGHT="${size.height}">
+${blocks}
+      </PrintSpace>
+    </Page>`;
+  }).join('\n');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(title)}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="OCR_0">
+      <ocrProcessingStep>
+        <processingSoftware>
+          <softwareName>DocuClean AI</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+  <Tags>
+${tags}
+  </Tags>
+  <Layout>
+${layout}
+  </Layout>
+</alto>`;
+  return new Blob([xml], { type: 'application/xml' });
+};
+
+/**
+ * PAGE XML holds a single page per file, so the document is a ZIP with one
+ * file per page.
+ */
+export const generatePAGEXML = async (pages: PageData[], edits: BlockEdits, sizes: PageSize[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const now = new Date().toISOString();
+
+  pages.forEach((page, i) => {
+    const size = sizes[i];
+    const regions = exportableBlocks(page, edits).map(block => {
+      const { x0, y0, x1, y1 } = toPixels(block.box_2d as number[], size);
+      return `    <TextRegion id="${ID_PREFIX}${escapeXml(block.id)}" type="${REGION_TYPES[block.label]}">
+      <Coords points="${x0},${y0} ${x1},${y0} ${x1},${y1} ${x0},${y1}" />
+      <TextEquiv>
+        <Unicode>${escapeXml(block.text)}</Unicode>
+      </TextEquiv>
+    </TextRegion>`;
+    }).join('\n');
+
+    zip.file(`page_${String(page.pageNumber).padStart(4, '0')}.xml`, `<?xml version="1.0" encoding="UTF-8"?>
+<PcGts xmlns="http://schema.primaresearch.org/PAGE/gts/pagecontent/2019-07-15" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://schema.primaresearch.org/PAGE/gts/pagecontent/2019-07-15 http://schema.primaresearch.org/PAGE/gts/pagecontent/2019-07-15/pagecontent.xsd">
+  <Metadata>
+    <Creator>DocuClean AI</Creator>
+    <Created>${now}</Created>
+    <LastChange>${now}</LastChange>
+  </Metadata>
+  <Page imageFilename="${escapeXml(imageFilename(page))}" imageWidth="${size.width}" imageHeight="${size.height}">
+${regions}
+  </Page>
+</PcGts>`);
+  });
+
+  return await zip.generateAsync({ type: "blob" });
+};
+
+// --- IMPORT ---
+
+interface ParsedBlock {
+  id: string | null;
+  text: string;
+  label: BlockLabel | null; // null: decided from the position once the page size is known
+  regionType?: string | null;
+  bbox: [number, number, number, number]; // x0, y0, x1, y1 in pixels
+}
+
+interface ParsedPage {
+  pageNumber?: number;
+  imageFilename?: string;
+  size?: PageSize;
+  blocks: ParsedBlock[];
+}
+
+export interface ImportedPage {
+  pageIndex: number;
+  blocks: TextBlock[];
+}
+
+const byLocalName = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const childrenByLocalName = (el: Element, name: string): Element[] =>
+  Array.from(el.children).filter(c => c.localName === name);
+
+const numberAttr = (el: Element, name: string) => {
+  const value = Number(el.getAttribute(name));
+  return Number.isFinite(value) ? value : 0;
+};
+
+const blockIdOf = (el: Element) => {
+  const id = el.getAttribute('id') || el.getAttribute('ID');
+  return id && id.startsWith(ID_PREFIX) ? id.slice(ID_PREFIX.length) : null;
+};
+
+const normalizeLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// hOCR title properties: "bbox 0 0 10 10; ppageno 3; image "a.jpg""
+const hocrProperties = (el: Element): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  (el.getAttribute('title') || '').split(';').forEach(part => {
+    const match = part.trim().match(/^(\S+)\s+(.*)$/);
+    if (match) properties[match[1]] = match[2].trim();
+  });
+  return properties;
+};
+
+const hocrBox = (value: string | undefined): [number, number, number, number] | null => {
+  const numbers = (value || '').split(/\s+/).map(Number);
+  return numbers.length === 4 && numbers.every(Number.isFinite) ? numbers as [number, number, number, number] : null;
+};
+
+const HOCR_BLOCK_CLASSES = new Set(Object.values(HOCR_CLASSES));
+const HOCR_BLOCK_SELECTOR = Object.values(HOCR_CLASSES).map(c => `.${c}`).join(', ');
+// Tesseract also types lines inside a paragraph as headers, captions and floats
+const HOCR_LINE_SELECTOR = '.ocr_line, .ocr_header, .ocr_caption, .ocr_textfloat';
+
+const parseHOCR = (doc: Document): ParsedPage[] => {
+  return Array.from(doc.querySelectorAll('.ocr_page')).map(pageEl => {
+    const properties = hocrProperties(pageEl);
+    const pageBox = hocrBox(properties.bbox);
+    const blocks: ParsedBlock[] = [];
+
+    Array.from(pageEl.querySelectorAll('*')).forEach(el => {
+      const ocrClass = Array.from(el.classList).find(c => HOCR_BLOCK_CLASSES.has(c));
+      if (!ocrClass) return;
+      // Nested block elements (e.g. a paragraph inside a float) count once, as the outer one
+      const outer = el.parentElement?.closest(HOCR_BLOCK_SELECTOR);
+      if (outer && pageEl.contains(outer)) return;
+      const elProperties = hocrProperties(el);
+      const bbox = hocrBox(elProperties.bbox);
+      if (!bbox) return;
+
+      const lines = Array.from(el.querySelectorAll(HOCR_LINE_SELECTOR));
+      const text = lines.length > 0
+        ? lines.map(line => normalizeLine(line.textContent || '')).join('\n')
+        : normalizeLine(el.textContent || '');
+      const exactLabel = elProperties[HOCR_LABEL_PROPERTY] as BlockLabel | undefined;
+      const label = exactLabel && exactLabel in REGION_TYPES
+        ? exactLabel
+        : (Object.keys(HOCR_CLASSES) as BlockLabel[]).find(l => HOCR_CLASSES[l] === ocrClass) || BlockLabel.MAIN_TEXT;
+
+      blocks.push({ id: blockIdOf(el), text, label, bbox });
+    });
+
+    const pageNumber = properties.ppageno !== undefined ? Number(properties.ppageno) + 1 : undefined;
+    return {
+      pageNumber: Number.isFinite(pageNumber) ? pageNumber : undefined,
+      imageFilename: properties.image?.replace(/^"|"$/g, ''),
+      size: pageBox ? { width: pageBox[2] - pageBox[0], height: pageBox[3] - pageBox[1] } : undefined,
+      blocks
+    };
+  });
+};
+
+const parseALTO = (doc: Document): ParsedPage[] => {
+  const tagLabels = new Map<string, string>();
+  byLocalName(doc, 'StructureTag').concat(byLocalName(doc, 'LayoutTag')).forEach(tag => {
+    tagLabels.set(tag.getAttribute('ID') || '', tag.getAttribute('LABEL') || '');
+  });
+
+  return byLocalName(doc, 'Page').map(pageEl => {
+    const blocks = byLocalName(pageEl, 'TextBlock').map(blockEl => {
+      const text = byLocalName(blockEl, 'TextLine')
+        .map(line => byLocalName(line, 'String').map(s => s.getAttribute('CONTENT') || '').join(' '))
+        .join('\n');
+      const tag = (blockEl.getAttribute('TAGREFS') || '').split(/\s+/).map(ref => tagLabels.get(ref)).find(Boolean) || null;
+      const margin = blockEl.closest('TopMargin, BottomMargin')?.localName;
+      const hpos = numberAttr(blockEl, 'HPOS');
+      const vpos = numberAttr(blockEl, 'VPOS');
+      return {
+        id: blockIdOf(blockEl),
+        text,
+        label: margin === 'TopMargin' ? BlockLabel.HEADER : margin === 'BottomMargin' ? BlockLabel.FOOTER : null,
+        regionType: tag,
+        bbox: [hpos, vpos, hpos + numberAttr(blockEl, 'WIDTH'), vpos + numberAttr(blockEl, 'HEIGHT')] as [number, number, number, number]
+      };
+    });
+    const width = numberAttr(pageEl, 'WIDTH');
+    const height = numberAttr(pageEl, 'HEIGHT');
+    const pageNumber = numberAttr(pageEl, 'PHYSICAL_IMG_NR');
+    return {
+      pageNumber: pageNumber || undefined,
+      size: width && height ? { width, height } : undefined,
+      blocks
+    };
+  });
+};
+
+const parsePAGE = (doc: Document): ParsedPage[] => {
+  return byLocalName(doc, 'Page').map(pageEl => {
+    const blocks = byLocalName(pageEl, 'TextRegion').map(region => {
+      const points = (childrenByLocalName(region, 'Coords')[0]?.getAttribute('points') || '')
+        .split(/\s+/).filter(Boolean).map(p => p.split(',').map(Number));
+      const xs = points.map(p => p[0]);
+      const ys = points.map(p => p[1]);
+      const unicodeOf = (el: Element) => {
+        const equiv = childrenByLocalName(el, 'TextEquiv')[0];
+        return equiv ? childrenByLocalName(equiv, 'Unicode')[0]?.textContent ?? null : null;
+      };
+      // Region-level text wins; otherwise the lines' text
+      const text = unicodeOf(region) ?? childrenByLocalName(region, 'TextLine').map(line => unicodeOf(line) || '').join('\n');
+      return {
+        id: blockIdOf(region),
+        text,
+        label: null,
+        regionType: region.getAttribute('type'),
+        bbox: points.length > 0
+          ? [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] as [number, number, number, number]
+          : [0, 0, 0, 0] as [number, number, number, number]
+      };
+    });
+    const width = numberAttr(pageEl, 'imageWidth');
+    const height = numberAttr(pageEl, 'imageHeight');
+    return {
+      imageFilename: pageEl.getAttribute('imageFilename') || undefined,
+      size: width && height ? { width, height } : undefined,
+      blocks
+    };
+  });
+};
+
+const parseOcrDocument = (source: string, fileName: string): ParsedPage[] => {
+  let doc = new DOMParser().parseFromString(source, 'application/xml');
+  // Plain (non-XHTML) hOCR isn't well-formed XML
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    doc = new DOMParser().parseFromString(source, 'text/html');
+  }
+  const root = doc.documentElement.localName;
+  if (root === 'alto') return parseALTO(doc);
+  if (root === 'PcGts') return parsePAGE(doc);
+  if (doc.querySelector('.ocr_page')) return parseHOCR(doc);
+  throw new Error(`${fileName} is not an hOCR, ALTO or PAGE XML file`);
+};
+
+/**
+ * Reads hOCR, ALTO or PAGE XML files (or ZIPs of them) and returns the blocks
+ * for each page they describe. Pages are matched by page number, then by image
+ * file name, then by order.
+ */
+export const parseOcrFiles = async (files: File[], pages: PageData[]): Promise<ImportedPage[]> => {
+  const sources: { name: string; text: string }[] = [];
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      const entries: JSZip.JSZipObject[] = [];
+      zip.forEach((_path, entry) => {
+        if (!entry.dir && /\.(xml|html?|hocr)$/i.test(entry.name)) entries.push(entry);
+      });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        sources.push({ name: entry.name, text: await entry.async('string') });
+      }
+    } else {
+      sources.push({ name: file.name, text: await file.text() });
+    }
+  }
+
+  const parsed = sources.flatMap(source => parseOcrDocument(source.text, source.name));
+  const imported: ImportedPage[] = [];
+
+  for (const [order, page] of parsed.entries()) {
+    let pageIndex = page.pageNumber !== undefined ? pages.findIndex(p => p.pageNumber === page.pageNumber) : -1;
+    if (pageIndex < 0 && page.imageFilename) pageIndex = pages.findIndex(p => imageFilename(p) === page.imageFilename);
+    if (pageIndex < 0 && page.pageNumber === undefined && !page.imageFilename) pageIndex = order < pages.length ? order : -1;
+    if (pageIndex < 0) continue;
+
+    const size = page.size || await loadImageSize(pages[pageIndex].imageUrl);
+    imported.push({
+      pageIndex,
+      blocks: page.blocks.map(block => {
+        const box_2d = fromPixels(...block.bbox, size);
+        return {
+          id: block.id || '',
+          text: block.text,
+          label: block.label || labelOfRegionType(block.regionType ?? null, (box_2d[0] + box_2d[2]) / 2),
+          box_2d
+        };
+      })
+    });
+  }
+  return imported;
+};
+
+/**
+ * Replaces a page's blocks with imported ones. Blocks whose id matches keep
+ * the model's original text and label; differences become corrections, so an
+ * unchanged round trip leaves the document as it was. Other blocks are new.
+ */
+export const mergeImportedBlocks = (
+  current: TextBlock[],
+  imported: TextBlock[],
+  edits: BlockEdits
+): { blocks: TextBlock[]; edits: BlockEdits } => {
+  const originals = new Map(current.map(b => [b.id, b]));
+  const matched = new Set<string>();
+  const nextEdits = { ...edits };
+  current.forEach(b => delete nextEdits[b.id]);
+
+  const blocks = imported.map(block => {
+    const original = originals.get(block.id);
+    if (!original || matched.has(block.id)) {
+      return { ...block, id: crypto.randomUUID() };
+    }
+    matched.add(block.id);
+
+    const previous = edits[block.id];
+    const currentText = previous?.text ?? original.text;
+    const currentLabel = previous?.label ?? original.label;
+    // Exports collapse runs of whitespace; that alone isn't a correction
+    const text = block.text.split('\n').map(normalizeLine).join('\n') === currentText.split('\n').map(normalizeLine).join('\n')
+      ? currentText
+      : block.text;
+    const edit: Omit<BlockEdit, 'updatedAt'> = {};
+    if (text !== original.text) edit.text = text;
+    if (block.label !== original.label) edit.label = block.label;
+    if (edit.text !== undefined || edit.label !== undefined) {
+      const unchanged = text === currentText && block.label === currentLabel && previous;
+      nextEdits[block.id] = unchanged ? previous : { ...edit, updatedAt: Date.now() };
+    }
+    return { ...original, box_2d: block.box_2d };
+  });
+
+  return { blocks, edits: nextEdits };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BlockLabel, TextBlock } from '../types';
+import { orderBlocks } from './readingOrder';
+
+// box is [ymin, xmin, ymax, xmax], normalized 0-1000
+const block = (id: string, box?: number[]): TextBlock => ({
+  id,
+  text: id,
+  label: BlockLabel.MAIN_TEXT,
+  box_2d: box
+});
+
+const ids = (blocks: TextBlock[]) => blocks.map(b => b.id);
+
+const twoColumns = [
+  block('left-1', [100, 50, 300, 480]),
+  block('right-1', [100, 520, 250, 950]),
+  block('right-2', [270, 520, 500, 950]),
+  block('left-2', [320, 50, 500, 480])
+];
+
+describe('orderBlocks', () => {
+  it('reads a two-column page column by column', () => {
+    expect(ids(orderBlocks(twoColumns, 'multi-column'))).toEqual(['left-1', 'left-2', 'right-1', 'right-2']);
+    // Line ordering interleaves the columns, which is what multi-column detection fixes
+    expect(ids(orderBlocks(twoColumns, 'single-column'))).toEqual(['left-1', 'right-1', 'right-2', 'left-2']);
+  });
+
+  it('keeps a full-width title above the columns and a footer below them', () => {
+    const page = [
+      ...twoColumns,
+      block('footer', [950, 50, 980, 950]),
+      block('title', [20, 50, 80, 950])
+    ];
+    expect(ids(orderBlocks(page, 'multi-column'))).toEqual(['title', 'left-1', 'left-2', 'right-1', 'right-2', 'footer']);
+  });
+
+  it('reads the main column before a sidebar next to it', () => {
+    const page = [
+      block('main-1', [100, 50, 300, 700]),
+      block('sidebar', [150, 740, 400, 950]),
+      block('main-2', [320, 50, 600, 700]),
+      block('main-3', [620, 50, 900, 700])
+    ];
+    expect(ids(orderBlocks(page, 'multi-column'))).toEqual(['main-1', 'main-2', 'main-3', 'sidebar']);
+  });
+
+  it('orders a single-column page the same way in every mode', () => {
+    const page = [
+      block('page-number', [20, 900, 40, 950]),
+      block('paragraph-2', [320, 50, 500, 950]),
+      block('running-header', [20, 50, 40, 300]),
+      block('heading', [60, 300, 100, 700]),
+      block('paragraph-1', [120, 50, 300, 950]),
+      block('paragraph-3', [520, 50, 900, 950])
+    ];
+    const expected = ['running-header', 'page-number', 'heading', 'paragraph-1', 'paragraph-2', 'paragraph-3'];
+    expect(ids(orderBlocks(page, 'multi-column'))).toEqual(expected);
+    expect(ids(orderBlocks(page, 'single-column'))).toEqual(expected);
+    expect(ids(orderBlocks(page))).toEqual(expected);
+  });
+
+  it('reads columns right to left in rtl mode', () => {
+    expect(ids(orderBlocks(twoColumns, 'rtl'))).toEqual(['right-1', 'right-2', 'left-1', 'left-2']);
+  });
+
+  it('orders blocks whose box corners are swapped like their upright boxes', () => {
+    const page = [
+      block('left-1', [100, 50, 300, 480]),
+      // ymin > ymax and xmin > xmax
+      block('left-2', [500, 50, 320, 480]),
+      block('right-1', [250, 950, 100, 520]),
+      block('right-2', [270, 520, 500, 950])
+    ];
+    const expected = ['left-1', 'left-2', 'right-1', 'right-2'];
+    expect(ids(orderBlocks(page, 'multi-column'))).toEqual(expected);
+    expect(ids(orderBlocks(page.slice(0, 2), 'multi-column'))).toEqual(['left-1', 'left-2']);
+    expect(ids(orderBlocks(page, 'rtl'))).toEqual(['right-1', 'right-2', 'left-1', 'left-2']);
+  });
+
+  it('puts blocks without a box first, in their original order', () => {
+    const page = [block('placed', [100, 50, 200, 950]), block('no-box-1'), block('no-box-2', [0, 0, 0, 0])];
+    expect(ids(orderBlocks(page, 'multi-column'))).toEqual(['no-box-1', 'no-box-2', 'placed']);
+  });
+});
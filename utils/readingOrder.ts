@@ -0,0 +1,123 @@
+import { TextBlock, ReadingOrder } from "../types";
+
+// box_2d is [ymin, xmin, ymax, xmax], normalized 0-1000
+const Y_MIN = 0;
+const X_MIN = 1;
+const Y_MAX = 2;
+const X_MAX = 3;
+
+// Two blocks whose ymin differ by less than this are considered on the same line
+const LINE_TOLERANCE = 10;
+
+// Gaps narrower than this are treated as noise (slightly overlapping model boxes)
+const MIN_GAP = 1;
+
+interface Cut {
+  at: number;
+  size: number;
+}
+
+// Corners put in order, so an inverted box (ymin > ymax or xmin > xmax) still
+// has a positive extent and lands on one side of every cut
+const boxOf = (block: TextBlock): number[] => {
+  const [y0, x0, y1, x1] = block.box_2d || [0, 0, 0, 0];
+  return [Math.min(y0, y1), Math.min(x0, x1), Math.max(y0, y1), Math.max(x0, x1)];
+};
+
+const hasBox = (block: TextBlock): boolean => boxOf(block).some(v => v !== 0);
+
+/**
+ * Sorts by vertical position (ymin) then horizontal (xmin).
+ * This is the original line-based ordering and still the fallback for
+ * regions that cannot be split any further.
+ */
+const sortByLines = (blocks: TextBlock[], rightToLeft: boolean): TextBlock[] => {
+  return [...blocks].sort((a, b) => {
+    const boxA = boxOf(a);
+    const boxB = boxOf(b);
+
+    // If lines are significantly different in Y, sort by Y
+    if (Math.abs(boxA[Y_MIN] - boxB[Y_MIN]) > LINE_TOLERANCE) {
+      return boxA[Y_MIN] - boxB[Y_MIN];
+    }
+    // Same line: left to right, or right to left for RTL scripts
+    return rightToLeft ? boxB[X_MAX] - boxA[X_MAX] : boxA[X_MIN] - boxB[X_MIN];
+  });
+};
+
+/**
+ * Finds the widest empty band along one axis, i.e. a position where a
+ * straight cut crosses no block at all.
+ */
+const findWidestGap = (blocks: TextBlock[], lo: number, hi: number): Cut | null => {
+  const intervals = blocks
+    .map(b => [boxOf(b)[lo], boxOf(b)[hi]])
+    .sort((a, b) => a[0] - b[0]);
+
+  let best: Cut | null = null;
+  let reach = intervals[0][1];
+
+  for (let i = 1; i < intervals.length; i++) {
+    const [start, end] = intervals[i];
+    const gap = start - reach;
+    if (gap >= MIN_GAP && (!best || gap > best.size)) {
+      best = { at: reach + gap / 2, size: gap };
+    }
+    reach = Math.max(reach, end);
+  }
+  return best;
+};
+
+/**
+ * Recursive XY-cut: split the region along the widest empty band
+ * (horizontal bands separate rows, vertical bands separate columns) and
+ * order the parts top-to-bottom / column by column.
+ */
+const xyCut = (blocks: TextBlock[], rightToLeft: boolean): TextBlock[] => {
+  if (blocks.length <= 1) return blocks;
+
+  const rowCut = findWidestGap(blocks, Y_MIN, Y_MAX);
+  const columnCut = findWidestGap(blocks, X_MIN, X_MAX);
+
+  if (!rowCut && !columnCut) {
+    return sortByLines(blocks, rightToLeft);
+  }
+
+  // Prefer rows on ties so full-width titles stay above the columns they introduce
+  if (rowCut && (!columnCut || rowCut.size >= columnCut.size)) {
+    const above = blocks.filter(b => boxOf(b)[Y_MAX] <= rowCut.at);
+    const below = blocks.filter(b => boxOf(b)[Y_MAX] > rowCut.at);
+    // A cut that separates nothing would recurse on the same blocks forever
+    if (above.length === 0 || below.length === 0) return sortByLines(blocks, rightToLeft);
+    return [...xyCut(above, rightToLeft), ...xyCut(below, rightToLeft)];
+  }
+
+  const cut = columnCut as Cut;
+  const left = blocks.filter(b => boxOf(b)[X_MAX] <= cut.at);
+  const right = blocks.filter(b => boxOf(b)[X_MAX] > cut.at);
+  if (left.length === 0 || right.length === 0) return sortByLines(blocks, rightToLeft);
+  return rightToLeft
+    ? [...xyCut(right, rightToLeft), ...xyCut(left, rightToLeft)]
+    : [...xyCut(left, rightToLeft), ...xyCut(right, rightToLeft)];
+};
+
+/**
+ * Orders the blocks of one page for reading.
+ * - 'single-column': plain line ordering (top to bottom, left to right).
+ * - 'multi-column': XY-cut column detection, columns read left to right.
+ * - 'rtl': XY-cut with columns and lines read right to left.
+ * Blocks without a box keep their original relative order at the start of the page.
+ *
+ * 'multi-column' is also used for documents saved before the option existed: on a
+ * single-column page XY-cut gives the same order as line ordering, so only pages
+ * that really have columns (which line ordering interleaved) read differently.
+ */
+export const orderBlocks = (blocks: TextBlock[], mode: ReadingOrder = 'multi-column'): TextBlock[] => {
+  if (mode === 'single-column') {
+    return sortByLines(blocks, false);
+  }
+
+  const unplaced = blocks.filter(b => !hasBox(b));
+  const placed = blocks.filter(hasBox);
+  return [...unplaced, ...xyCut(placed, mode === 'rtl')];
+};
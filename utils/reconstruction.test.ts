@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import { generateEPUB, generateHTML } from './reconstruction';
+
+// 1x1 transparent PNG
+const COVER_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const TEXT = [
+  'Opening words before any title.',
+  '# Tom & Jerry <Part 1>',
+  'She said "hello" & he said \'bye\' <b>not a tag</b>.[^n1]',
+  '[^n1]: A note with 5 < 6 & "quotes".',
+  '# Chapter "Two"',
+  'Ampersands && angle brackets >> everywhere.'
+].join('\n\n');
+
+const { DOMParser } = new JSDOM().window;
+
+const parseXml = (source: string, name: string): Document => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`${name} is not well-formed XML: ${error.textContent}`);
+  return doc;
+};
+
+const readEntry = async (zip: JSZip, name: string): Promise<string> => {
+  const entry = zip.file(name);
+  if (!entry) throw new Error(`${name} is missing from the EPUB`);
+  return entry.async('string');
+};
+
+const buildEpub = async () => {
+  const epub = await generateEPUB(TEXT, {
+    title: 'Cats & <Mice>',
+    authors: ['O\'Brien & "Sons"'],
+    language: 'en',
+    coverImageUrl: COVER_IMAGE
+  });
+  const bytes = new Uint8Array(await epub.arrayBuffer());
+  return { bytes, zip: await JSZip.loadAsync(bytes) };
+};
+
+describe('generateEPUB', () => {
+  it('stores the mimetype first and uncompressed', async () => {
+    const { bytes, zip } = await buildEpub();
+    const header = new DataView(bytes.buffer, bytes.byteOffset);
+    // First local file header: signature, compression method and file name
+    expect(header.getUint32(0, true)).toBe(0x04034b50);
+    expect(header.getUint16(8, true)).toBe(0);
+    const nameLength = header.getUint16(26, true);
+    expect(new TextDecoder().decode(bytes.subarray(30, 30 + nameLength))).toBe('mimetype');
+    expect(await readEntry(zip, 'mimetype')).toBe('application/epub+zip');
+  });
+
+  it('points the container at a package whose manifest and spine are complete', async () => {
+    const { zip } = await buildEpub();
+    const container = parseXml(await readEntry(zip, 'META-INF/container.xml'), 'container.xml');
+    const opfPath = container.getElementsByTagName('rootfile')[0].getAttribute('full-path') as string;
+    const opf = parseXml(await readEntry(zip, opfPath), opfPath);
+    const baseDir = opfPath.slice(0, opfPath.lastIndexOf('/') + 1);
+    const items = Array.from(opf.getElementsByTagName('item'));
+    for (const item of items) {
+      expect(zip.file(baseDir + item.getAttribute('href')), item.getAttribute('href') as string).not.toBeNull();
+    }
+
+    const manifestIds = new Set(items.map(item => item.getAttribute('id')));
+    expect(manifestIds.has('cover-image')).toBe(true);
+    const spine = Array.from(opf.getElementsByTagName('itemref')).map(ref => ref.getAttribute('idref'));
+    expect(spine.length).toBeGreaterThan(0);
+    spine.forEach(idref => expect(manifestIds.has(idref)).toBe(true));
+
+    const nav = items.filter(item => (item.getAttribute('properties') || '').split(' ').includes('nav'));
+    expect(nav).toHaveLength(1);
+    const navDoc = parseXml(await readEntry(zip, baseDir + nav[0].getAttribute('href')), 'nav');
+    expect(navDoc.getElementsByTagName('nav').length).toBeGreaterThan(0);
+  });
+
+  it('writes well-formed chapters that keep &, < and quotes as text', async () => {
+    const { zip } = await buildEpub();
+    const chapters = zip.file(/\.xhtml$/);
+    expect(chapters.length).toBeGreaterThan(2);
+
+    const text: string[] = [];
+    for (const chapter of chapters) {
+      const doc = parseXml(await chapter.async('string'), chapter.name);
+      text.push(doc.documentElement.textContent || '');
+    }
+    const all = text.join('\n');
+    expect(all).toContain('Tom & Jerry <Part 1>');
+    expect(all).toContain('She said "hello" & he said \'bye\' <b>not a tag</b>.');
+    expect(all).toContain('A note with 5 < 6 & "quotes".');
+    expect(all).toContain('Chapter "Two"');
+    expect(all).toContain('Cats & <Mice>');
+  });
+});
+
+describe('generateHTML', () => {
+  it('escapes the text but keeps footnote links', async () => {
+    const html = await generateHTML(TEXT, 'Cats & <Mice>').text();
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    expect(doc.querySelectorAll('b')).toHaveLength(0);
+    expect(doc.body.textContent).toContain('She said "hello" & he said \'bye\' <b>not a tag</b>.');
+    expect(doc.body.textContent).toContain('A note with 5 < 6 & "quotes".');
+    expect(doc.querySelectorAll('a[href="#fn-n1"]')).toHaveLength(1);
+    expect(doc.querySelectorAll('aside#fn-n1')).toHaveLength(1);
+  });
+});
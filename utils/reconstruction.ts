@@ -1,4 +1,14 @@
-import { PageData, BlockLabel } from "../types";
+import { PageData, BlockLabel, TextBlock, BlockEdits, SourceMapEntry, ReadingOrder, FootnoteMode, DocumentMetadata } from "../types";
+import { orderBlocks } from "./readingOrder";
+import {
+  parseFootnoteBlock,
+  linkFootnoteReference,
+  footnoteKey,
+  numberFootnotes,
+  renderFootnoteReferences,
+  FOOTNOTE_DEFINITION,
+  FOOTNOTE_REFERENCE
+} from "./footnotes";
 // @ts-ignore
 import JSZip from 'jszip';
 
@@ -34,82 +44,299 @@ const cleanBlockContent = (text: string): string => {
     .join('\n\n');
 };
 
+/**
+ * Returns the blocks with the user's per-block corrections applied.
+ * Blocks without an edit are returned untouched.
+ */
+export const applyBlockEdits = (blocks: TextBlock[], edits: BlockEdits = {}): TextBlock[] => {
+  return blocks.map(block => {
+    const edit = edits[block.id];
+    if (!edit) return block;
+    return {
+      ...block,
+      text: edit.text ?? block.text,
+      label: edit.label ?? block.label,
+    };
+  });
+};
+
+/**
+ * Puts a page's blocks in reading order (see utils/readingOrder.ts).
+ */
+export const sortBlocksByReadingOrder = (blocks: TextBlock[], readingOrder?: ReadingOrder): TextBlock[] => {
+  return orderBlocks(blocks, readingOrder);
+};
+
+export interface ReconstructionOptions {
+  readingOrder?: ReadingOrder;
+  // Join paragraphs that continue across blocks/pages (default: true)
+  mergeContinuations?: boolean;
+  // How included FOOTNOTE blocks are emitted (default: 'footnotes')
+  footnoteMode?: FootnoteMode;
+}
+
+// A letter followed by a hyphen (or soft hyphen) at the very end: "exam-"
+const TRAILING_HYPHEN = /\p{L}[-\u00AD]$/u;
+// Characters that normally close a sentence or paragraph
+const TERMINAL_PUNCTUATION = /[.!?:;…"'»”’)\]]$/;
+const LOWERCASE_START = /^\p{Ll}/u;
+const TRAILING_FOOTNOTE_REFERENCE = /\[\^[^\]\s]+\]$/;
+
+/**
+ * Decides how a paragraph joins the text before it when it looks like a continuation:
+ * - '' for a word hyphenated across the boundary (the hyphen is dropped by the caller)
+ * - ' ' for a sentence that simply carries on
+ * - null when it is a genuine new paragraph
+ */
+const continuationJoiner = (previousText: string, content: string): string | null => {
+  if (!LOWERCASE_START.test(content)) return null;
+  if (TRAILING_HYPHEN.test(previousText)) return '';
+  // A footnote reference at the end doesn't end the sentence: "as shown[^12-1]"
+  if (!TERMINAL_PUNCTUATION.test(previousText.replace(TRAILING_FOOTNOTE_REFERENCE, ''))) return ' ';
+  return null;
+};
+
+export interface ReconstructionResult {
+  text: string;
+  sourceMap: SourceMapEntry[];
+}
+
 /**
  * Reconstructs the "Clean Transcript" by:
- * 1. Concatenating blocks that match the allowed labels.
- * 2. Inserting TITLE blocks in their logical position.
+ * 1. Applying the user's per-block corrections (text and label).
+ * 2. Concatenating blocks that match the allowed labels.
+ * 3. Inserting TITLE blocks in their logical position.
+ * 4. Merging paragraphs split across blocks or pages (unless disabled).
+ * 5. Linking FOOTNOTE blocks to their references as Markdown footnotes (or endnotes).
+ * Alongside the text it records, for every emitted block, the output range it occupies.
  */
-export const reconstructCleanText = (
-  pages: PageData[], 
-  includeLabels: BlockLabel[] = [BlockLabel.TITLE, BlockLabel.MAIN_TEXT]
-): string => {
+export const reconstructWithSourceMap = (
+  pages: PageData[],
+  includeLabels: BlockLabel[] = [BlockLabel.TITLE, BlockLabel.MAIN_TEXT],
+  edits: BlockEdits = {},
+  options: ReconstructionOptions = {}
+): ReconstructionResult => {
   let cleanText = "";
+  const sourceMap: SourceMapEntry[] = [];
+  const mergeContinuations = options.mergeContinuations !== false;
+  const footnoteMode = options.footnoteMode || 'footnotes';
+  const linkFootnotes = footnoteMode !== 'inline' && includeLabels.includes(BlockLabel.FOOTNOTE);
+  // Whether the last emitted block was body text that a following block may continue
+  let lastWasParagraph = false;
+  // Footnote definitions waiting for the end of the current paragraph (or chapter, for endnotes)
+  const pendingNotes: { content: string; blockId: string; pageNumber: number }[] = [];
 
-  pages.forEach((page) => {
-    // Sort blocks by vertical position (ymin) then horizontal (xmin) to ensure reading order
-    // box_2d is [ymin, xmin, ymax, xmax]
-    const sortedBlocks = [...page.blocks].sort((a, b) => {
-      const boxA = a.box_2d || [0, 0, 0, 0];
-      const boxB = b.box_2d || [0, 0, 0, 0];
-      
-      // If lines are significantly different in Y (> 10 normalized units), sort by Y
-      if (Math.abs(boxA[0] - boxB[0]) > 10) { 
-         return boxA[0] - boxB[0];
-      }
-      return boxA[1] - boxB[1]; // Same line, sort left to right
+  const append = (content: string, blockId: string, pageNumber: number, separator: string) => {
+    cleanText += separator;
+    sourceMap.push({ start: cleanText.length, end: cleanText.length + content.length, blockId, pageNumber });
+    cleanText += content;
+  };
+
+  const flushNotes = () => {
+    pendingNotes.splice(0).forEach(note => {
+      append(note.content, note.blockId, note.pageNumber, cleanText ? '\n\n' : '');
     });
+    lastWasParagraph = false;
+  };
 
-    sortedBlocks.forEach((block) => {
-      // Filter based on user selection
-      if (!includeLabels.includes(block.label)) return;
+  // Blocks are separated by exactly one blank line unless they continue the previous
+  // paragraph; offsets are only valid because nothing is collapsed or trimmed afterwards.
+  const emit = (content: string, blockId: string, pageNumber: number, isParagraph: boolean) => {
+    if (!content) return;
+
+    const joiner = mergeContinuations && isParagraph && lastWasParagraph
+      ? continuationJoiner(cleanText, content)
+      : null;
+
+    // Footnotes are placed after the paragraph that references them (even when it spans
+    // pages); endnotes are collected until the next chapter title.
+    if (joiner === null && pendingNotes.length > 0 && (footnoteMode === 'footnotes' || !isParagraph)) {
+      flushNotes();
+    }
+
+    if (joiner === '') {
+      // Rejoin the hyphenated word: drop the hyphen from the previous block
+      cleanText = cleanText.slice(0, -1);
+      sourceMap[sourceMap.length - 1].end -= 1;
+      append(content, blockId, pageNumber, '');
+    } else {
+      append(content, blockId, pageNumber, joiner === ' ' ? ' ' : (cleanText ? '\n\n' : ''));
+    }
+    lastWasParagraph = isParagraph;
+  };
+
+  pages.forEach((page) => {
+    const sortedBlocks = sortBlocksByReadingOrder(applyBlockEdits(page.blocks, edits), options.readingOrder);
+
+    // Filter based on user selection (after edits, so relabelled blocks follow their new label)
+    const included = sortedBlocks.filter(block => includeLabels.includes(block.label));
+
+    // Clean up excessive newlines (more than 2) inside the block itself
+    const bodyBlocks = included
+      .filter(block => !(linkFootnotes && block.label === BlockLabel.FOOTNOTE))
+      .map(block => ({ block, content: cleanBlockContent(block.text).replace(/\n{3,}/g, '\n\n').trim() }));
+
+    // This page's notes are queued only after its body has been emitted
+    const pageNotes: typeof pendingNotes = [];
+
+    if (linkFootnotes) {
+      const usedKeys = new Set<string>();
+      included
+        .filter(block => block.label === BlockLabel.FOOTNOTE)
+        .forEach(block => {
+          parseFootnoteBlock(block.text).forEach(note => {
+            const body = cleanBlockContent(note.body);
+            if (!body) return;
+
+            if (!note.marker) {
+              // Continuation of a note started on an earlier page
+              const last = pageNotes[pageNotes.length - 1] || pendingNotes[pendingNotes.length - 1];
+              if (last) last.content += ` ${body}`;
+              else pageNotes.push({ content: body, blockId: block.id, pageNumber: page.pageNumber });
+              return;
+            }
+
+            let key = footnoteKey(page.pageNumber, note.marker);
+            while (usedKeys.has(key)) key += 'b';
+            usedKeys.add(key);
+
+            const referencing = bodyBlocks.find(item => {
+              const linked = linkFootnoteReference(item.content, note.marker as string, key);
+              if (linked === null) return false;
+              item.content = linked;
+              return true;
+            });
+
+            pageNotes.push({
+              // Unreferenced notes keep their marker as plain text instead of dangling
+              content: referencing ? `[^${key}]: ${body}` : `${note.marker} ${body}`,
+              blockId: block.id,
+              pageNumber: page.pageNumber
+            });
+          });
+        });
+    }
+
+    bodyBlocks.forEach(({ block, content }) => {
+      if (!content) return;
 
       if (block.label === BlockLabel.TITLE) {
         // Titles are distinct sections
-        const processedTitle = cleanBlockContent(block.text);
-        if (processedTitle) {
-          cleanText += `\n\n# ${processedTitle}\n\n`;
-        }
+        emit(`# ${content}`, block.id, page.pageNumber, false);
       } else {
         // Treat everything else (MAIN_TEXT, HEADER, FOOTNOTE, etc.) as standard paragraphs
         // if the user has opted to include them.
-        const processed = cleanBlockContent(block.text);
-        if (processed) {
-          cleanText += `${processed}\n\n`;
-        }
+        emit(content, block.id, page.pageNumber, true);
       }
     });
+
+    pendingNotes.push(...pageNotes);
   });
 
-  // Post-processing to clean up excessive newlines (more than 2)
-  return cleanText.replace(/\n{3,}/g, '\n\n').trim();
+  flushNotes();
+
+  return { text: cleanText, sourceMap };
 };
 
-export const generateMarkdown = (text: string): Blob => {
-  return new Blob([text], { type: 'text/markdown' });
+export const reconstructCleanText = (
+  pages: PageData[],
+  includeLabels: BlockLabel[] = [BlockLabel.TITLE, BlockLabel.MAIN_TEXT],
+  edits: BlockEdits = {},
+  options: ReconstructionOptions = {}
+): string => reconstructWithSourceMap(pages, includeLabels, edits, options).text;
+
+/**
+ * Finds the block that produced the character at `offset`.
+ * Offsets that fall on a separator resolve to the preceding block.
+ */
+export const findSourceAtOffset = (sourceMap: SourceMapEntry[], offset: number): SourceMapEntry | null => {
+  let match: SourceMapEntry | null = null;
+  for (const entry of sourceMap) {
+    if (entry.start > offset) break;
+    match = entry;
+  }
+  return match;
 };
 
-export const generateHTML = (text: string, title: string): Blob => {
+export const findRangeForBlock = (sourceMap: SourceMapEntry[], blockId: string): SourceMapEntry | null => {
+  return sourceMap.find(entry => entry.blockId === blockId) || null;
+};
+
+/**
+ * YAML front matter for the non-empty metadata fields; strings are written as
+ * JSON, which is valid double-quoted YAML.
+ */
+const yamlFrontMatter = (metadata: DocumentMetadata): string => {
+  const lines: string[] = [];
+  (Object.keys(metadata) as (keyof DocumentMetadata)[]).forEach(field => {
+    const value = metadata[field];
+    if (Array.isArray(value)) {
+      if (value.length > 0) lines.push(`${field}:`, ...value.map(v => `  - ${JSON.stringify(v)}`));
+    } else if (value) {
+      lines.push(`${field}: ${JSON.stringify(value)}`);
+    }
+  });
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : '';
+};
+
+export const generateMarkdown = (text: string, metadata?: DocumentMetadata): Blob => {
+  return new Blob([(metadata ? yamlFrontMatter(metadata) : '') + text], { type: 'text/markdown' });
+};
+
+// Dublin Core <meta> tags (the DC-HTML convention) plus the standard author/keywords/description
+const htmlMetaTags = (metadata: DocumentMetadata, title: string): string => {
+  const meta = (name: string, content: string | undefined) => content ? [`<meta name="${name}" content="${escapeXml(content)}">`] : [];
+  const authors = metadata.authors || [];
+  return [
+    '<link rel="schema.DC" href="http://purl.org/dc/elements/1.1/">',
+    ...meta('DC.title', title),
+    ...authors.flatMap(author => [...meta('author', author), ...meta('DC.creator', author)]),
+    ...meta('DC.language', metadata.language),
+    ...meta('DC.date', metadata.year),
+    ...meta('DC.publisher', metadata.publisher),
+    ...meta('DC.identifier', metadata.isbn && `urn:isbn:${metadata.isbn}`),
+    ...meta('DC.identifier', metadata.doi && `https://doi.org/${metadata.doi}`),
+    ...(metadata.tags || []).flatMap(tag => meta('DC.subject', tag)),
+    ...meta('keywords', metadata.tags?.join(', ')),
+    ...meta('description', metadata.notes)
+  ].join('\n      ');
+};
+
+export const generateHTML = (text: string, title: string, metadata: DocumentMetadata = {}): Blob => {
   // Parse markdown-like structure to HTML tags to avoid "all bold" issues
   // and ensure valid HTML structure.
   const paragraphs = text.split('\n\n');
+  const footnoteNumbers = numberFootnotes(text);
+  // OCR text is escaped first: it may contain "<" or "&" that must not become markup
+  const withNoteRefs = (p: string) => renderFootnoteReferences(escapeXml(p), footnoteNumbers,
+    (key, n) => `<sup><a href="#fn-${key}" id="fnref-${key}">${n}</a></sup>`);
+
   const htmlBody = paragraphs.map(p => {
     const trimmed = p.trim();
     if (!trimmed) return '';
     
     // Check for headers (indicated by # in our reconstruction)
     if (trimmed.startsWith('# ')) {
-      return `<h2>${trimmed.replace('# ', '')}</h2>`;
+      return `<h2>${withNoteRefs(trimmed.replace('# ', ''))}</h2>`;
+    }
+    // Footnote definitions ("[^key]: text") become asides linking back to the reference
+    const definition = trimmed.match(FOOTNOTE_DEFINITION);
+    if (definition) {
+      const key = definition[1];
+      const body = withNoteRefs(trimmed.slice(definition[0].length));
+      return `<aside class="footnote" id="fn-${key}"><a href="#fnref-${key}">${footnoteNumbers.get(key) ?? ''}</a>. ${body}</aside>`;
     }
     // Regular paragraphs
-    return `<p>${trimmed}</p>`;
+    return `<p>${withNoteRefs(trimmed)}</p>`;
   }).join('\n');
 
   const htmlContent = `
     <!DOCTYPE html>
-    <html lang="en">
+    <html lang="${escapeXml(metadata.language || 'en')}">
     <head>
       <meta charset="UTF-8">
-      <title>${title}</title>
+      <title>${escapeXml(title)}</title>
+      ${htmlMetaTags(metadata, title)}
       <style>
         body { 
           font-family: Georgia, serif; 
@@ -129,6 +356,13 @@ export const generateHTML = (text: string, title: string): Blob => {
           font-weight: bold; 
           color: #111;
         }
+        aside.footnote {
+          font-size: 0.85em;
+          color: #555;
+          border-left: 2px solid #ddd;
+          padding-left: 1em;
+          margin-bottom: 1em;
+        }
       </style>
     </head>
     <body>
@@ -139,105 +373,553 @@ export const generateHTML = (text: string, title: string): Blob => {
   return new Blob([htmlContent], { type: 'text/html' });
 };
 
-export const generateEPUB = async (text: string, title: string): Promise<Blob> => {
-  const zip = new JSZip();
+export interface EpubMetadata extends DocumentMetadata {
+  title: string;
+  coverImageUrl?: string; // Usually the first page image
+}
 
-  // 1. mimetype (must be first, no compression)
-  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+// Image types every EPUB 3 reader must support, with the extension to store them under
+const EPUB_IMAGE_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
 
-  // 2. META-INF/container.xml
-  zip.folder("META-INF").file("container.xml", `<?xml version="1.0"?>
-<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
-   <rootfiles>
-      <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
-   </rootfiles>
-</container>`);
+// Simplified BCP 47 check: primary language plus optional subtags
+export const LANGUAGE_TAG = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
 
-  // Prepare content for XHTML
-  const paragraphs = text.split('\n\n');
-  let xhtmlBody = "";
-  let navPoints = "";
-  let playOrder = 1;
+interface EpubChapter {
+  heading: string | null; // null for text before the first title
+  paragraphs: string[];
+}
 
-  paragraphs.forEach((p, index) => {
+/**
+ * Splits the transcript into chapters, starting a new one at every title ("# ").
+ */
+const splitChapters = (text: string): EpubChapter[] => {
+  const chapters: EpubChapter[] = [];
+  text.split('\n\n').forEach(p => {
     const trimmed = p.trim();
     if (!trimmed) return;
-
     if (trimmed.startsWith('# ')) {
-      const headerText = trimmed.replace('# ', '');
-      const id = `section-${index}`;
-      xhtmlBody += `<h2 id="${id}">${headerText}</h2>\n`;
-      
-      // Add to TOC
-      navPoints += `
-        <navPoint id="navPoint-${playOrder}" playOrder="${playOrder}">
-          <navLabel><text>${headerText}</text></navLabel>
-          <content src="content.xhtml#${id}"/>
-        </navPoint>`;
-      playOrder++;
+      chapters.push({ heading: trimmed.slice(2), paragraphs: [] });
     } else {
-      xhtmlBody += `<p>${trimmed}</p>\n`;
+      if (chapters.length === 0) chapters.push({ heading: null, paragraphs: [] });
+      chapters[chapters.length - 1].paragraphs.push(trimmed);
     }
   });
+  return chapters.length > 0 ? chapters : [{ heading: null, paragraphs: [] }];
+};
 
-  const uniqueId = `urn:uuid:${crypto.randomUUID()}`;
-
-  // 3. OEBPS/content.opf
-  const opfContent = `<?xml version="1.0" encoding="UTF-8"?>
-<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="BookId" version="2.0">
-   <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">
-      <dc:title>${title}</dc:title>
-      <dc:language>en</dc:language>
-      <dc:identifier id="BookId" opf:scheme="UUID">${uniqueId}</dc:identifier>
-      <dc:creator opf:role="aut">DocuClean AI</dc:creator>
-   </metadata>
-   <manifest>
-      <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
-      <item id="content" href="content.xhtml" media-type="application/xhtml+xml"/>
-   </manifest>
-   <spine toc="ncx">
-      <itemref idref="content"/>
-   </spine>
-</package>`;
-
-  // 4. OEBPS/toc.ncx
-  const ncxContent = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE ncx PUBLIC "-//NISO//DTD ncx 2005-1//EN" "http://www.daisy.org/z3986/2005/ncx-2005-1.dtd">
-<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
-   <head>
-      <meta name="dtb:uid" content="${uniqueId}"/>
-      <meta name="dtb:depth" content="1"/>
-      <meta name="dtb:totalPageCount" content="0"/>
-      <meta name="dtb:maxPageNumber" content="0"/>
-   </head>
-   <docTitle><text>${title}</text></docTitle>
-   <navMap>
-      ${navPoints || `<navPoint id="navPoint-1" playOrder="1"><navLabel><text>Start</text></navLabel><content src="content.xhtml"/></navPoint>`}
-   </navMap>
-</ncx>`;
-
-  // 5. OEBPS/content.xhtml
-  const xhtmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.1//EN" "http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd">
-<html xmlns="http://www.w3.org/1999/xhtml">
+const epubPage = (title: string, language: string, body: string, stylesheet = true) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
 <head>
-  <title>${title}</title>
-  <style type="text/css">
-    body { font-family: serif; line-height: 1.5; margin: 2em; }
-    h2 { font-weight: bold; margin-top: 1.5em; page-break-after: avoid; }
-    p { margin-bottom: 1em; text-align: justify; }
-  </style>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>${stylesheet ? `
+  <link rel="stylesheet" type="text/css" href="style.css"/>` : ''}
 </head>
 <body>
-  <h1>${title}</h1>
-  ${xhtmlBody}
+${body}
 </body>
 </html>`;
 
-  const oebps = zip.folder("OEBPS");
-  oebps.file("content.opf", opfContent);
-  oebps.file("toc.ncx", ncxContent);
-  oebps.file("content.xhtml", xhtmlContent);
+// Dublin Core elements besides the identifier, title and language every package has
+const dublinCoreElements = (metadata: DocumentMetadata): string => {
+  const element = (name: string, value: string | undefined) => value?.trim() ? [`    <dc:${name}>${escapeXml(value.trim())}</dc:${name}>`] : [];
+  return [
+    ...(metadata.authors || []).flatMap(author => element('creator', author)),
+    ...element('date', metadata.year),
+    ...element('publisher', metadata.publisher),
+    ...element('identifier', metadata.isbn && `urn:isbn:${metadata.isbn}`),
+    ...element('identifier', metadata.doi && `https://doi.org/${metadata.doi}`),
+    ...(metadata.tags || []).flatMap(tag => element('subject', tag)),
+    ...element('description', metadata.notes)
+  ].join('\n');
+};
+
+const loadCoverImage = async (url: string): Promise<{ data: ArrayBuffer; type: string } | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return EPUB_IMAGE_TYPES[blob.type] ? { data: await blob.arrayBuffer(), type: blob.type } : null;
+  } catch (e) {
+    console.warn("Could not load the cover image", e);
+    return null;
+  }
+};
+
+/**
+ * Builds an EPUB 3 book with one XHTML file per chapter (split at titles), a
+ * navigation document and linked footnotes. A cover that can't be loaded is
+ * left out rather than failing the export.
+ */
+export const generateEPUB = async (text: string, metadata: EpubMetadata): Promise<Blob> => {
+  const title = metadata.title.trim() || 'Untitled';
+  const language = LANGUAGE_TAG.test((metadata.language || '').trim()) ? (metadata.language as string).trim() : 'en';
+  const chapters = splitChapters(text);
+  const chapterFile = (index: number) => `chapter-${String(index + 1).padStart(3, '0')}.xhtml`;
+
+  // Notes may be referenced from one chapter and defined in another (endnotes),
+  // so links carry the file name of the other end
+  const footnoteNumbers = numberFootnotes(text);
+  const definitionFile = new Map<string, string>();
+  const referenceFile = new Map<string, string>();
+  chapters.forEach((chapter, i) => {
+    [chapter.heading || '', ...chapter.paragraphs].forEach(p => {
+      const definition = p.match(FOOTNOTE_DEFINITION);
+      if (definition) definitionFile.set(definition[1], chapterFile(i));
+      const body = definition ? p.slice(definition[0].length) : p;
+      for (const match of body.matchAll(FOOTNOTE_REFERENCE)) {
+        if (!referenceFile.has(match[1])) referenceFile.set(match[1], chapterFile(i));
+      }
+    });
+  });
+
+  const linked = new Set<string>();
+  const withNoteRefs = (p: string, file: string) => renderFootnoteReferences(escapeXml(p), footnoteNumbers, (key, n) => {
+    const target = definitionFile.get(key);
+    if (!target) return `<sup>${n}</sup>`;
+    // Only the first reference gets the id the note links back to
+    const id = linked.has(key) ? '' : ` id="fnref-${key}"`;
+    linked.add(key);
+    return `<sup><a epub:type="noteref" href="${target === file ? '' : target}#fn-${key}"${id}>${n}</a></sup>`;
+  });
+
+  const zip = new JSZip();
+
+  // mimetype must be first and uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+
+  zip.file("META-INF/container.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+
+  const chapterLabels = chapters.map((chapter, i) => {
+    if (chapter.heading === null) return title;
+    return chapter.heading.replace(FOOTNOTE_REFERENCE, '').trim() || `Chapter ${i + 1}`;
+  });
+
+  chapters.forEach((chapter, i) => {
+    const file = chapterFile(i);
+    const body = [
+      i === 0 ? `<h1 class="book-title">${escapeXml(title)}</h1>` : '',
+      chapter.heading !== null ? `<h2>${withNoteRefs(chapter.heading, file)}</h2>` : '',
+      ...chapter.paragraphs.map(p => {
+        const definition = p.match(FOOTNOTE_DEFINITION);
+        if (!definition) return `<p>${withNoteRefs(p, file)}</p>`;
+        // Definitions become EPUB 3 popup notes linking back to their reference
+        const key = definition[1];
+        const source = referenceFile.get(key);
+        const number = footnoteNumbers.get(key) ?? '';
+        const marker = source ? `<a href="${source === file ? '' : source}#fnref-${key}">${number}</a>` : `${number}`;
+        return `<aside epub:type="footnote" id="fn-${key}"><p>${marker}. ${withNoteRefs(p.slice(definition[0].length), file)}</p></aside>`;
+      })
+    ].filter(Boolean).join('\n');
+    zip.file(`OEBPS/${file}`, epubPage(chapterLabels[i], language, `<section epub:type="chapter">\n${body}\n</section>`));
+  });
+
+  zip.file("OEBPS/nav.xhtml", epubPage(title, language, `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+${chapterLabels.map((label, i) => `    <li><a href="${chapterFile(i)}">${escapeXml(label)}</a></li>`).join('\n')}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="bodymatter" href="${chapterFile(0)}">Start</a></li>
+  </ol>
+</nav>`));
+
+  zip.file("OEBPS/style.css", `body { font-family: serif; line-height: 1.5; margin: 1em; }
+h1.book-title { text-align: center; margin: 2em 0; }
+h2 { font-weight: bold; margin-top: 1.5em; page-break-after: avoid; }
+p { margin: 0 0 1em 0; text-align: justify; }
+aside { font-size: 0.85em; }
+img.cover { display: block; max-width: 100%; max-height: 100%; margin: 0 auto; }
+`);
+
+  const cover = metadata.coverImageUrl ? await loadCoverImage(metadata.coverImageUrl) : null;
+  if (cover) {
+    const coverHref = `images/cover.${EPUB_IMAGE_TYPES[cover.type]}`;
+    zip.file(`OEBPS/${coverHref}`, cover.data);
+    zip.file("OEBPS/cover.xhtml", epubPage('Cover', language,
+      `<section epub:type="cover"><img class="cover" src="${coverHref}" alt="${escapeXml(title)}"/></section>`));
+  }
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const dcElements = dublinCoreElements(metadata);
+  zip.file("OEBPS/content.opf", `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="BookId" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="BookId">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${language}</dc:language>${dcElements ? `\n${dcElements}` : ''}
+    <meta property="dcterms:modified">${modified}</meta>${cover ? `
+    <meta name="cover" content="cover-image"/>` : ''}
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>${cover ? `
+    <item id="cover-image" href="images/cover.${EPUB_IMAGE_TYPES[cover.type]}" media-type="${cover.type}" properties="cover-image"/>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>` : ''}
+${chapters.map((_, i) => `    <item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml"/>`).join('\n')}
+  </manifest>
+  <spine>${cover ? `
+    <itemref idref="cover"/>` : ''}
+${chapters.map((_, i) => `    <itemref idref="chapter-${i + 1}"/>`).join('\n')}
+  </spine>
+</package>`);
 
   return await zip.generateAsync({ type: "blob", mimeType: "application/epub+zip" });
-};
\ No newline at end of file
+};
+
+// --- STRUCTURED EXPORTS (DOCX, ODT) ---
+// Word processors need to know what each paragraph is, not just its text. The
+// flattened transcript already marks titles ("# ") and footnote definitions
+// ("[^key]: "); the source map tells which block, and so which label, every other
+// paragraph came from.
+
+export interface TranscriptParagraph {
+  kind: 'heading' | 'body' | 'caption' | 'footnote';
+  text: string; // Without the "# " / "[^key]: " prefix; may contain footnote references
+  noteKey?: string; // Footnote definitions only
+}
+
+export interface TranscriptStructure {
+  sourceMap?: SourceMapEntry[];
+  // Effective label of every block, see blockLabelsOf
+  blockLabels?: Map<string, BlockLabel>;
+}
+
+/**
+ * Labels of all blocks after the user's corrections, keyed by block id.
+ */
+export const blockLabelsOf = (pages: PageData[], edits: BlockEdits = {}): Map<string, BlockLabel> => {
+  return new Map(pages.flatMap(page => applyBlockEdits(page.blocks, edits)).map(block => [block.id, block.label]));
+};
+
+/**
+ * Splits a transcript into typed paragraphs. Without a source map (legacy text)
+ * every paragraph that isn't a title or footnote is body text.
+ */
+export const structureTranscript = (text: string, { sourceMap = [], blockLabels = new Map() }: TranscriptStructure = {}): TranscriptParagraph[] => {
+  const paragraphs: TranscriptParagraph[] = [];
+  let offset = 0;
+
+  text.split('\n\n').forEach(raw => {
+    const start = offset + (raw.length - raw.trimStart().length);
+    offset += raw.length + 2;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    const definition = trimmed.match(FOOTNOTE_DEFINITION);
+    if (definition) {
+      paragraphs.push({ kind: 'footnote', text: trimmed.slice(definition[0].length), noteKey: definition[1] });
+    } else if (trimmed.startsWith('# ')) {
+      paragraphs.push({ kind: 'heading', text: trimmed.slice(2) });
+    } else {
+      const source = findSourceAtOffset(sourceMap, start);
+      const label = source ? blockLabels.get(source.blockId) : undefined;
+      paragraphs.push({ kind: label === BlockLabel.CAPTION ? 'caption' : 'body', text: trimmed });
+    }
+  });
+  return paragraphs;
+};
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F￾￿]/g;
+
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+/**
+ * Splits paragraph text around footnote references and renders each piece:
+ * plain text through `renderText`, references through `renderNote` (or as their
+ * number where notes can't nest, e.g. inside another note).
+ */
+const renderWithNotes = (
+  text: string,
+  numbers: Map<string, number>,
+  renderText: (text: string) => string,
+  renderNote: ((key: string, n: number) => string) | null
+): string => {
+  const pattern = new RegExp(FOOTNOTE_REFERENCE.source, 'g');
+  let output = '';
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const n = numbers.get(match[1]);
+    if (n === undefined) continue;
+    if (match.index > position) output += renderText(text.slice(position, match.index));
+    output += renderNote ? renderNote(match[1], n) : renderText(String(n));
+    position = match.index + match[0].length;
+  }
+  if (position < text.length) output += renderText(text.slice(position));
+  return output;
+};
+
+// Metadata fields word processors have no built-in property for; they become
+// custom document properties
+const customProperties = (metadata: DocumentMetadata): [string, string][] => {
+  const fields: [string, string | undefined][] = [
+    ['Publisher', metadata.publisher],
+    ['Year', metadata.year],
+    ['ISBN', metadata.isbn],
+    ['DOI', metadata.doi]
+  ];
+  return fields.filter((field): field is [string, string] => !!field[1]?.trim());
+};
+
+const DOCX_PARAGRAPH_STYLES: Record<Exclude<TranscriptParagraph['kind'], 'footnote'>, string> = {
+  heading: 'Heading1',
+  body: 'BodyText',
+  caption: 'Caption'
+};
+
+/**
+ * Builds a Word document: TITLE blocks become Heading 1, body text uses Body Text,
+ * CAPTION blocks the Caption style, and linked footnotes become native Word
+ * footnotes (endnote mode included, as Word has no per-chapter endnotes).
+ */
+export const generateDOCX = async (text: string, title: string, structure: TranscriptStructure = {}, metadata: DocumentMetadata = {}): Promise<Blob> => {
+  const paragraphs = structureTranscript(text, structure);
+  const numbers = numberFootnotes(text);
+  const definitions = new Map(paragraphs.filter(p => p.kind === 'footnote').map(p => [p.noteKey as string, p.text]));
+  // Only notes that are both referenced and defined become Word footnotes
+  const noteNumbers = new Map([...numbers].filter(([key]) => definitions.has(key)));
+
+  const run = (content: string) => `<w:r><w:t xml:space="preserve">${escapeXml(content)}</w:t></w:r>`;
+  const noteReference = (_key: string, n: number) =>
+    `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${n}"/></w:r>`;
+  const paragraph = (style: string, runs: string) => `<w:p><w:pPr><w:pStyle w:val="${style}"/></w:pPr>${runs}</w:p>`;
+
+  const body = [
+    paragraph('Title', run(title)),
+    ...paragraphs
+      .filter(p => p.kind !== 'footnote' || !noteNumbers.has(p.noteKey as string))
+      .map(p => p.kind === 'footnote'
+        // A definition nothing refers to stays visible as a plain paragraph
+        ? paragraph('BodyText', run(p.text))
+        : paragraph(DOCX_PARAGRAPH_STYLES[p.kind], renderWithNotes(p.text, noteNumbers, run, noteReference)))
+  ].join('\n');
+
+  const footnotes = [...noteNumbers].map(([key, n]) => `
+  <w:footnote w:id="${n}">
+    <w:p><w:pPr><w:pStyle w:val="FootnoteText"/></w:pPr><w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>${run(' ')}${renderWithNotes(definitions.get(key) as string, noteNumbers, run, null)}</w:p>
+  </w:footnote>`).join('');
+
+  const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+  const zip = new JSZip();
+
+  zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+  <Override PartName="/word/footnotes.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+  <Override PartName="/docProps/custom.xml" ContentType="application/vnd.openxmlformats-officedocument.custom-properties+xml"/>
+</Types>`);
+
+  zip.file("_rels/.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties" Target="docProps/custom.xml"/>
+</Relationships>`);
+
+  const coreElement = (name: string, value: string | undefined) => value?.trim() ? `\n  <${name}>${escapeXml(value.trim())}</${name}>` : '';
+  zip.file("docProps/core.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dc:creator>${escapeXml(metadata.authors?.length ? metadata.authors.join('; ') : 'DocuClean AI')}</dc:creator>${
+  coreElement('dc:language', metadata.language)}${
+  coreElement('dc:identifier', metadata.isbn ? `urn:isbn:${metadata.isbn}` : metadata.doi && `https://doi.org/${metadata.doi}`)}${
+  coreElement('cp:keywords', metadata.tags?.join(', '))}${
+  coreElement('dc:description', metadata.notes)}
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`);
+
+  // Custom property ids start at 2; the format id is the one Office uses for user-defined properties
+  zip.file("docProps/custom.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">${
+  customProperties(metadata).map(([name, value], i) => `
+  <property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="${i + 2}" name="${name}"><vt:lpwstr>${escapeXml(value.trim())}</vt:lpwstr></property>`).join('')}
+</Properties>`);
+
+  zip.file("word/_rels/document.xml.rels", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>
+  <Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes" Target="footnotes.xml"/>
+</Relationships>`);
+
+  zip.file("word/document.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS}>
+  <w:body>
+${body}
+    <w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`);
+
+  // Ids -1 and 0 are the separator lines Word draws above the notes
+  zip.file("word/footnotes.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:footnotes ${W_NS}>
+  <w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>
+  <w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>${footnotes}
+</w:footnotes>`);
+
+  zip.file("word/settings.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings ${W_NS}>
+  <w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>
+</w:settings>`);
+
+  zip.file("word/styles.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:cs="Georgia"/><w:sz w:val="24"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="BodyText"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="360"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="BodyText"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="480" w:after="240"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="BodyText"><w:name w:val="Body Text"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:jc w:val="both"/></w:pPr></w:style>
+  <w:style w:type="paragraph" w:styleId="Caption"><w:name w:val="caption"/><w:basedOn w:val="Normal"/><w:next w:val="BodyText"/><w:qFormat/>
+    <w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:i/><w:sz w:val="20"/></w:rPr></w:style>
+  <w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>
+  <w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/><w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>
+</w:styles>`);
+
+  return await zip.generateAsync({ type: "blob", mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" });
+};
+
+const ODT_PARAGRAPH_STYLES: Record<Exclude<TranscriptParagraph['kind'], 'footnote' | 'heading'>, string> = {
+  body: 'Text_20_body',
+  caption: 'Caption'
+};
+
+/**
+ * Builds an OpenDocument text file with the same mapping as generateDOCX,
+ * using LibreOffice's built-in style names and native text:note footnotes.
+ */
+export const generateODT = async (text: string, title: string, structure: TranscriptStructure = {}, metadata: DocumentMetadata = {}): Promise<Blob> => {
+  const paragraphs = structureTranscript(text, structure);
+  const numbers = numberFootnotes(text);
+  const definitions = new Map(paragraphs.filter(p => p.kind === 'footnote').map(p => [p.noteKey as string, p.text]));
+  const noteNumbers = new Map([...numbers].filter(([key]) => definitions.has(key)));
+
+  // Notes are written inline at their (first) reference
+  const renderedNotes = new Set<string>();
+  const note = (key: string, n: number) => {
+    if (renderedNotes.has(key)) return `<text:span text:style-name="Footnote_20_Symbol">${n}</text:span>`;
+    renderedNotes.add(key);
+    return `<text:note text:id="ftn${n}" text:note-class="footnote"><text:note-citation>${n}</text:note-citation><text:note-body>` +
+      `<text:p text:style-name="Footnote">${renderWithNotes(definitions.get(key) as string, noteNumbers, escapeXml, null)}</text:p>` +
+      `</text:note-body></text:note>`;
+  };
+
+  const body = [
+    `<text:p text:style-name="Title">${escapeXml(title)}</text:p>`,
+    ...paragraphs
+      .filter(p => p.kind !== 'footnote' || !noteNumbers.has(p.noteKey as string))
+      .map(p => {
+        if (p.kind === 'heading') {
+          return `<text:h text:style-name="Heading_20_1" text:outline-level="1">${renderWithNotes(p.text, noteNumbers, escapeXml, note)}</text:h>`;
+        }
+        const style = p.kind === 'footnote' ? 'Text_20_body' : ODT_PARAGRAPH_STYLES[p.kind];
+        return `<text:p text:style-name="${style}">${renderWithNotes(p.text, noteNumbers, escapeXml, p.kind === 'footnote' ? null : note)}</text:p>`;
+      })
+  ].join('\n');
+
+  const OFFICE_NS = 'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" office:version="1.3"';
+  const zip = new JSZip();
+
+  // mimetype must be first and uncompressed, as in EPUB
+  zip.file("mimetype", "application/vnd.oasis.opendocument.text", { compression: "STORE" });
+
+  zip.file("META-INF/manifest.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+  <manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`);
+
+  zip.file("meta.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta ${OFFICE_NS}>
+  <office:meta>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <meta:generator>DocuClean AI</meta:generator>
+    <meta:creation-date>${new Date().toISOString().replace(/\.\d+Z$/, '')}</meta:creation-date>${
+    metadata.authors?.length ? `\n    <meta:initial-creator>${escapeXml(metadata.authors.join('; '))}</meta:initial-creator>` : ''}${
+    metadata.language?.trim() ? `\n    <dc:language>${escapeXml(metadata.language.trim())}</dc:language>` : ''}${
+    metadata.notes?.trim() ? `\n    <dc:description>${escapeXml(metadata.notes.trim())}</dc:description>` : ''}${
+    (metadata.tags || []).map(tag => `\n    <meta:keyword>${escapeXml(tag)}</meta:keyword>`).join('')}${
+    customProperties(metadata).map(([name, value]) => `\n    <meta:user-defined meta:name="${name}">${escapeXml(value.trim())}</meta:user-defined>`).join('')}
+  </office:meta>
+</office:document-meta>`);
+
+  zip.file("styles.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${OFFICE_NS}>
+  <office:styles>
+    <style:default-style style:family="paragraph">
+      <style:paragraph-properties fo:margin-bottom="0.28cm" fo:line-height="115%"/>
+      <style:text-properties style:font-name="Georgia" fo:font-family="Georgia" fo:font-size="12pt"/>
+    </style:default-style>
+    <style:style style:name="Standard" style:family="paragraph" style:class="text"/>
+    <style:style style:name="Title" style:display-name="Title" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:class="chapter">
+      <style:paragraph-properties fo:margin-bottom="0.64cm"/>
+      <style:text-properties fo:font-size="24pt" fo:font-weight="bold"/>
+    </style:style>
+    <style:style style:name="Heading_20_1" style:display-name="Heading 1" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Text_20_body" style:default-outline-level="1" style:class="text">
+      <style:paragraph-properties fo:margin-top="0.85cm" fo:margin-bottom="0.42cm" fo:keep-with-next="always"/>
+      <style:text-properties fo:font-size="16pt" fo:font-weight="bold"/>
+    </style:style>
+    <style:style style:name="Text_20_body" style:display-name="Text body" style:family="paragraph" style:parent-style-name="Standard" style:class="text">
+      <style:paragraph-properties fo:text-align="justify"/>
+    </style:style>
+    <style:style style:name="Caption" style:family="paragraph" style:parent-style-name="Standard" style:class="extra">
+      <style:paragraph-properties fo:text-align="center"/>
+      <style:text-properties fo:font-size="10pt" fo:font-style="italic"/>
+    </style:style>
+    <style:style style:name="Footnote" style:family="paragraph" style:parent-style-name="Standard" style:class="extra">
+      <style:paragraph-properties fo:margin-bottom="0cm" fo:line-height="100%"/>
+      <style:text-properties fo:font-size="10pt"/>
+    </style:style>
+    <style:style style:name="Footnote_20_Symbol" style:display-name="Footnote Symbol" style:family="text">
+      <style:text-properties style:text-position="super 58%"/>
+    </style:style>
+    <text:notes-configuration text:note-class="footnote" text:citation-style-name="Footnote_20_Symbol" text:default-style-name="Footnote" style:num-format="1" text:start-value="0" text:footnotes-position="page" text:start-numbering-at="document"/>
+  </office:styles>
+</office:document-styles>`);
+
+  zip.file("content.xml", `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${OFFICE_NS}>
+  <office:body>
+    <office:text>
+${body}
+    </office:text>
+  </office:body>
+</office:document-content>`);
+
+  return await zip.generateAsync({ type: "blob", mimeType: "application/vnd.oasis.opendocument.text" });
+};
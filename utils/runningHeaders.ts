@@ -0,0 +1,117 @@
+import { PageData, BlockLabel, BlockEdits } from "../types";
+import { applyBlockEdits } from "./reconstruction";
+
+export interface RunningHeaderSuggestion {
+  blockId: string;
+  pageNumber: number;
+  text: string;
+  fromLabel: BlockLabel;
+  toLabel: BlockLabel.HEADER | BlockLabel.FOOTER;
+  reason: 'page-number' | 'running-text';
+  // Number of pages on which the same text was found at this position
+  occurrences: number;
+}
+
+// Blocks must start/end within these bands (normalized 0-1000) to count as running text
+const TOP_BAND = 120;
+const BOTTOM_BAND = 880;
+
+// Repeated blocks must sit at roughly the same height on every page
+const POSITION_TOLERANCE = 30;
+
+// Running text is short; longer blocks are body text even if they repeat
+const MAX_RUNNING_TEXT_LENGTH = 120;
+
+const PAGE_NUMBER = /^(page\s*)?[-–—(\[]?\s*(\d{1,4}|[ivxlcdm]{1,7})\s*[-–—)\]]?$/i;
+
+type Zone = 'top' | 'bottom';
+
+interface Candidate {
+  blockId: string;
+  pageNumber: number;
+  text: string;
+  label: BlockLabel;
+  zone: Zone;
+  center: number;
+}
+
+/**
+ * Normalizes running text so "Chapter 3 · The Sea  17" and "Chapter 3 · The Sea 18"
+ * compare equal: case, punctuation, whitespace and digits are ignored.
+ */
+const normalizeRunningText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/\d+/g, '#')
+    .replace(/[^\p{L}#]+/gu, ' ')
+    .trim();
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Finds blocks that repeat across pages at a consistent position near the top
+ * or bottom edge (page numbers, running chapter titles) and are not yet labelled
+ * HEADER/FOOTER. Nothing is changed; the caller decides which suggestions to apply.
+ */
+export const detectRunningHeaders = (pages: PageData[], edits: BlockEdits = {}): RunningHeaderSuggestion[] => {
+  const candidates: Candidate[] = [];
+
+  pages.forEach(page => {
+    applyBlockEdits(page.blocks, edits).forEach(block => {
+      const box = block.box_2d;
+      const text = block.text.trim();
+      if (!box || box.every(v => v === 0) || !text || text.length > MAX_RUNNING_TEXT_LENGTH) return;
+
+      const [ymin, , ymax] = box;
+      const zone: Zone | null = ymax <= TOP_BAND ? 'top' : ymin >= BOTTOM_BAND ? 'bottom' : null;
+      if (!zone) return;
+
+      candidates.push({ blockId: block.id, pageNumber: page.pageNumber, text, label: block.label, zone, center: (ymin + ymax) / 2 });
+    });
+  });
+
+  // Short documents can't show much repetition
+  const minPages = pages.length <= 3 ? 2 : 3;
+
+  // Group by zone + normalized text; page numbers of a zone form a single group
+  const groups = new Map<string, { reason: RunningHeaderSuggestion['reason']; items: Candidate[] }>();
+  candidates.forEach(c => {
+    const isPageNumber = PAGE_NUMBER.test(c.text);
+    const normalized = normalizeRunningText(c.text);
+    if (!isPageNumber && !normalized.replace(/#/g, '').trim()) return;
+
+    const key = isPageNumber ? `${c.zone}:page-number` : `${c.zone}:${normalized}`;
+    if (!groups.has(key)) groups.set(key, { reason: isPageNumber ? 'page-number' : 'running-text', items: [] });
+    groups.get(key)!.items.push(c);
+  });
+
+  const suggestions: RunningHeaderSuggestion[] = [];
+
+  groups.forEach(({ reason, items }) => {
+    // Keep only blocks near the group's typical height
+    const typical = median(items.map(i => i.center));
+    const aligned = items.filter(i => Math.abs(i.center - typical) <= POSITION_TOLERANCE);
+    const pagesWithHit = new Set(aligned.map(i => i.pageNumber));
+    if (pagesWithHit.size < minPages) return;
+
+    aligned.forEach(item => {
+      const toLabel = item.zone === 'top' ? BlockLabel.HEADER : BlockLabel.FOOTER;
+      if (item.label === toLabel) return;
+      suggestions.push({
+        blockId: item.blockId,
+        pageNumber: item.pageNumber,
+        text: item.text,
+        fromLabel: item.label,
+        toLabel,
+        reason,
+        occurrences: pagesWithHit.size
+      });
+    });
+  });
+
+  return suggestions.sort((a, b) => a.pageNumber - b.pageNumber);
+};
@@ -0,0 +1,147 @@
+import { PDFDocument, PDFFont, PDFImage, StandardFonts, TextRenderingMode, beginText, endText, setFontAndSize, setTextRenderingMode, setCharacterSqueeze, setTextMatrix, showText, pushGraphicsState, popGraphicsState } from 'pdf-lib';
+import { PageData, BlockEdits, DocumentMetadata } from '../types';
+import { applyBlockEdits } from './reconstruction';
+
+// Searchable PDF export: every page image is drawn full-page and the recognized
+// text of each block is laid over it in invisible text (render mode 3) inside
+// the block's box_2d, so viewers can select and search it.
+
+// Resolution assumed for page images when the document doesn't record one
+// (same default as the server's PDF rasterizer)
+const DEFAULT_IMAGE_DPI = 150;
+
+// Line height relative to font size when fitting text into a box
+const LINE_HEIGHT = 1.15;
+
+const fetchPageImage = async (pdf: PDFDocument, imageUrl: string): Promise<PDFImage> => {
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`Failed to load page image (${response.status})`);
+  const blob = await response.blob();
+
+  if (blob.type === 'image/jpeg') return pdf.embedJpg(await blob.arrayBuffer());
+  if (blob.type === 'image/png') return pdf.embedPng(await blob.arrayBuffer());
+
+  // pdf-lib only embeds JPEG and PNG: anything else is re-encoded through a canvas
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!jpeg) throw new Error("Failed to convert page image");
+  return pdf.embedJpg(await jpeg.arrayBuffer());
+};
+
+/**
+ * The standard fonts only cover WinAnsi. Accented letters outside it lose their
+ * accents, other characters are dropped; the visible image is unaffected.
+ */
+const toFontCharacters = (text: string, supported: Set<number>): string => {
+  return Array.from(text.replace(/\s+/g, ' ')).map(char => {
+    if (supported.has(char.codePointAt(0) as number)) return char;
+    const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return Array.from(base).every(c => supported.has(c.codePointAt(0) as number)) ? base : '';
+  }).join('');
+};
+
+const wrapWords = (words: string[], font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Fits `text` into a width × height box: picks the font size whose wrapped lines
+ * fill the box's height, then stretches each line to the box's width so
+ * selection highlights line up with the printed text.
+ */
+const layoutBlockText = (text: string, font: PDFFont, width: number, height: number) => {
+  const words = text.split(' ').filter(Boolean);
+  const unitWidth = font.widthOfTextAtSize(words.join(' '), 1);
+  if (words.length === 0 || unitWidth === 0) return null;
+
+  let size = Math.min(height / LINE_HEIGHT, Math.sqrt((width * height) / (unitWidth * LINE_HEIGHT)));
+  let lines = wrapWords(words, font, size, width);
+  // Long words can wrap into more lines than estimated
+  while (size > 1 && lines.length * size * LINE_HEIGHT > height) {
+    size *= 0.9;
+    lines = wrapWords(words, font, size, width);
+  }
+  return { size, lines, lineHeight: height / lines.length };
+};
+
+/**
+ * Builds a PDF of the page images with an invisible text layer from the blocks
+ * (corrections applied). `dpi` is the resolution the page images were rendered
+ * at, which gives the pages their physical size.
+ */
+export const generateSearchablePDF = async (
+  pages: PageData[],
+  edits: BlockEdits = {},
+  { title, dpi = DEFAULT_IMAGE_DPI, metadata = {} }: { title?: string; dpi?: number; metadata?: DocumentMetadata } = {}
+): Promise<Blob> => {
+  const pdf = await PDFDocument.create();
+  if (title) pdf.setTitle(title);
+  if (metadata.authors?.length) pdf.setAuthor(metadata.authors.join('; '));
+  if (metadata.language) pdf.setLanguage(metadata.language);
+  if (metadata.tags?.length) pdf.setKeywords(metadata.tags);
+  if (metadata.notes) pdf.setSubject(metadata.notes);
+  pdf.setProducer('DocuClean AI');
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const supported = new Set(font.getCharacterSet());
+  const pointsPerPixel = 72 / dpi;
+
+  for (const pageData of pages) {
+    const image = await fetchPageImage(pdf, pageData.imageUrl);
+    const pageWidth = image.width * pointsPerPixel;
+    const pageHeight = image.height * pointsPerPixel;
+    const page = pdf.addPage([pageWidth, pageHeight]);
+    page.drawImage(image, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+
+    applyBlockEdits(pageData.blocks, edits).forEach(block => {
+      if (!block.box_2d || !block.text) return;
+      // box_2d is [ymin, xmin, ymax, xmax] normalized 0-1000, from the top left
+      const [ymin, xmin, ymax, xmax] = block.box_2d;
+      const left = (xmin / 1000) * pageWidth;
+      const top = pageHeight - (ymin / 1000) * pageHeight;
+      const width = ((xmax - xmin) / 1000) * pageWidth;
+      const height = ((ymax - ymin) / 1000) * pageHeight;
+      if (width <= 0 || height <= 0) return;
+
+      const layout = layoutBlockText(toFontCharacters(block.text, supported), font, width, height);
+      if (!layout) return;
+
+      page.pushOperators(
+        pushGraphicsState(),
+        beginText(),
+        setFontAndSize(page.node.newFontDictionary(font.name, font.ref), layout.size),
+        setTextRenderingMode(TextRenderingMode.Invisible)
+      );
+      layout.lines.forEach((line, i) => {
+        const lineWidth = font.widthOfTextAtSize(line, layout.size);
+        // Baseline sits above the bottom of the line's slot by the descender
+        const baseline = top - (i + 1) * layout.lineHeight + layout.size * 0.2;
+        page.pushOperators(
+          setCharacterSqueeze(lineWidth > 0 ? (width / lineWidth) * 100 : 100),
+          setTextMatrix(1, 0, 0, 1, left, baseline),
+          showText(font.encodeText(line))
+        );
+      });
+      page.pushOperators(endText(), popGraphicsState());
+    });
+  }
+
+  const bytes = await pdf.save();
+  return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+};
@@ -1,9 +1,10 @@
-import { FileSystemItem } from '../types';
+import { BlockLabel, DocumentData, FileSystemItem, ItemSummary, PageData, Revision, RevisionSummary, TrashEntry } from '../types';
 
 // Use relative path so Vite proxy handles it in dev, and it works in prod (same origin)
 const API_BASE = '/api/documents';
 
-export const getAllItems = async (): Promise<FileSystemItem[]> => {
+// Summaries only (no pages); use getItem for a full document
+export const getAllItems = async (): Promise<ItemSummary[]> => {
   const response = await fetch(API_BASE);
   if (!response.ok) {
     throw new Error('Failed to fetch items');
@@ -11,8 +12,33 @@ export const getAllItems = async (): Promise<FileSystemItem[]> => {
   return response.json();
 };
 
-export const saveItem = async (item: FileSystemItem, startProcessing: boolean = false): Promise<FileSystemItem> => {
-  const body = { ...item, startProcessing };
+export const getItem = async (id: string): Promise<FileSystemItem> => {
+  const response = await fetch(`${API_BASE}/${id}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch item ${id}`);
+  }
+  return response.json();
+};
+
+// Renames or moves an item without sending (or needing) its pages
+export const updateItem = async (id: string, changes: Partial<Pick<FileSystemItem, 'name' | 'parentId'>>): Promise<ItemSummary> => {
+  const response = await fetch(`${API_BASE}/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to update item: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// Pass `revision` for editor saves: they are kept in the document's revision history
+export const saveItem = async (item: FileSystemItem, startProcessing: boolean = false, revision?: { note?: string }): Promise<FileSystemItem> => {
+  const body = { ...item, startProcessing, revision };
   const response = await fetch(API_BASE, {
     method: 'POST',
     headers: {
@@ -27,6 +53,89 @@ export const saveItem = async (item: FileSystemItem, startProcessing: boolean =
   return response.json();
 };
 
+export interface UploadOptions {
+  id: string;
+  parentId: string | null;
+  model: string;
+  dpi?: number; // PDF rasterization resolution; server default when unset
+}
+
+interface UploadSession {
+  uploadId: string;
+  size: number;
+  received: number;
+  chunkSize: number;
+}
+
+// Attempts per chunk before giving up; each retry resumes from the server's offset
+const CHUNK_RETRIES = 3;
+// Wait before the first retry of a chunk; doubled for every further retry
+const CHUNK_RETRY_DELAY_MS = 500;
+
+const readJson = async <T>(response: Response, action: string): Promise<T> => {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to ${action}: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Uploads an original file (PDF or image) in chunks and creates the document server-side.
+ * Interrupted chunks are resumed from the offset the server reports.
+ * `onProgress` receives the fraction of bytes stored so far (0-1).
+ */
+export const uploadFile = async (
+  file: File,
+  options: UploadOptions,
+  onProgress?: (fraction: number) => void
+): Promise<DocumentData> => {
+  const session = await readJson<UploadSession>(await fetch('/api/uploads', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name: file.name, size: file.size, type: file.type, ...options }),
+  }), 'start upload');
+
+  let offset = session.received;
+  let failures = 0;
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + session.chunkSize);
+    try {
+      const response = await fetch(`/api/uploads/${session.uploadId}?offset=${offset}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+        },
+        body: chunk,
+      });
+      if (response.status === 409) {
+        // Out of sync (e.g. a retried chunk already arrived): retried like a failed chunk,
+        // from where the server is
+        throw new Error(`Upload out of sync at offset ${offset}`);
+      }
+      offset = (await readJson<UploadSession>(response, 'upload chunk')).received;
+      failures = 0;
+      onProgress?.(offset / file.size);
+    } catch (e) {
+      if (++failures > CHUNK_RETRIES) {
+        await fetch(`/api/uploads/${session.uploadId}`, { method: 'DELETE' }).catch(() => {});
+        throw e;
+      }
+      await new Promise(resolve => setTimeout(resolve, CHUNK_RETRY_DELAY_MS * 2 ** (failures - 1)));
+      const status = await readJson<UploadSession>(await fetch(`/api/uploads/${session.uploadId}`), 'read upload');
+      offset = status.received;
+    }
+  }
+
+  return readJson<DocumentData>(await fetch(`/api/uploads/${session.uploadId}/complete`, {
+    method: 'POST',
+  }), 'complete upload');
+};
+
+// Moves the item (and a folder's contents) to the trash
 export const deleteItem = async (id: string): Promise<void> => {
   const response = await fetch(`${API_BASE}/${id}`, {
     method: 'DELETE',
@@ -36,12 +145,212 @@ export const deleteItem = async (id: string): Promise<void> => {
   }
 };
 
+// Same as deleteItem for several items in one request; either all move to the trash or none
+export const deleteItems = async (ids: string[]): Promise<void> => {
+  const response = await fetch(`${API_BASE}/delete`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ids }),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to delete items: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+};
+
+export interface TrashListing {
+  retentionDays: number;
+  items: TrashEntry[]; // Newest first
+}
+
+export const listTrash = async (): Promise<TrashListing> => {
+  const response = await fetch('/api/trash');
+  if (!response.ok) {
+    throw new Error('Failed to fetch trash');
+  }
+  return response.json();
+};
+
+// Returns the restored items, contents included
+export const restoreFromTrash = async (id: string): Promise<ItemSummary[]> => {
+  const response = await fetch(`/api/trash/${id}/restore`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to restore item: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// Deletes a trashed item permanently; without an id the whole trash is emptied
+export const purgeFromTrash = async (id?: string): Promise<void> => {
+  const response = await fetch(id ? `/api/trash/${id}` : '/api/trash', {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    throw new Error('Failed to delete from trash');
+  }
+};
+
+export type ProcessingEvent =
+  | { type: 'page'; docId: string; pageIndex: number; page: PageData; retryAt?: number }
+  | { type: 'document'; docId: string; status: DocumentData['status']; processedPages: number; totalPages: number };
+
+/**
+ * Subscribes to live processing progress pushed by the server.
+ * `onReconnect` fires when the stream comes back after a drop, since events may have been missed.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToProgress = (
+  onEvent: (event: ProcessingEvent) => void,
+  onReconnect?: () => void
+): (() => void) => {
+  const source = new EventSource('/api/events');
+  let hasConnected = false;
+
+  const handle = (e: MessageEvent) => onEvent(JSON.parse(e.data));
+  source.addEventListener('page', handle);
+  source.addEventListener('document', handle);
+  source.addEventListener('open', () => {
+    if (hasConnected) onReconnect?.();
+    hasConnected = true;
+  });
+
+  return () => source.close();
+};
+
+export type ProcessingAction = 'pause' | 'resume' | 'cancel';
+
+// Controls the server-side processing job of a document
+export const controlProcessing = async (id: string, action: ProcessingAction): Promise<void> => {
+  const response = await fetch(`/api/jobs/${id}/${action}`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to ${action} processing: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+};
+
+export interface ReprocessRequest {
+  pages: number[]; // 1-based page numbers
+  model?: string;
+  prompt?: string;
+}
+
+// Re-runs OCR on selected pages in the background; returns the document marked as processing
+export const reprocessPages = async (id: string, request: ReprocessRequest): Promise<DocumentData> => {
+  const response = await fetch(`${API_BASE}/${id}/reprocess`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to reprocess pages: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// Newest first
+export const listRevisions = async (id: string): Promise<RevisionSummary[]> => {
+  const response = await fetch(`${API_BASE}/${id}/revisions`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch revisions');
+  }
+  return response.json();
+};
+
+export const getRevision = async (id: string, revisionId: string): Promise<Revision> => {
+  const response = await fetch(`${API_BASE}/${id}/revisions/${revisionId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch revision ${revisionId}`);
+  }
+  return response.json();
+};
+
+// Returns the document with the revision's corrections applied
+export const restoreRevision = async (id: string, revisionId: string): Promise<DocumentData> => {
+  const response = await fetch(`${API_BASE}/${id}/revisions/${revisionId}/restore`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to restore revision: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// One matching block. Page and block are null for hits in a legacy transcript.
+export interface SearchHit {
+  docId: string;
+  docName: string;
+  pageIndex: number | null; // 0-based
+  pageNumber: number | null;
+  blockId: string | null;
+  label: BlockLabel | null;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) ranges of matched words in the snippet
+}
+
+export interface SearchResults {
+  total: number;
+  results: SearchHit[];
+}
+
+export const searchDocuments = async (query: string, limit?: number, signal?: AbortSignal): Promise<SearchResults> => {
+  const params = new URLSearchParams({ q: query });
+  if (limit) params.set('limit', String(limit));
+  const response = await fetch(`/api/search?${params}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Search failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// Download link for a lossless archive of the given items and everything inside
+// them (the whole library when none are given). The browser streams it to disk.
+export const archiveUrl = (ids: string[] = []): string => {
+  return ids.length > 0 ? `/api/archive?${new URLSearchParams({ ids: ids.join(',') })}` : '/api/archive';
+};
+
+// What happens to archived items whose id already exists: imported under a new id,
+// left out, or written over the existing item
+export type ArchiveConflictMode = 'rename' | 'skip' | 'replace';
+
+export interface ArchiveImportResult {
+  items: ItemSummary[];
+  renamed: Record<string, string>; // archived id -> new id
+  skipped: string[];
+}
+
+export const importArchive = async (file: File, parentId: string | null, conflict: ArchiveConflictMode): Promise<ArchiveImportResult> => {
+  const params = new URLSearchParams({ conflict });
+  if (parentId) params.set('parentId', parentId);
+  const response = await fetch(`/api/archive?${params}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/zip',
+    },
+    body: file,
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to import archive: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+  return response.json();
+};
+
+// Moves every document (and folder, unless kept) to the trash in one request
 export const nukeDB = async (keepFolders: boolean = false): Promise<void> => {
   const items = await getAllItems();
-  for (const item of items) {
-    if (keepFolders && item.type === 'folder') {
-      continue;
-    }
-    await deleteItem(item.id);
+  const ids = items.filter(item => !keepFolders || item.type !== 'folder').map(item => item.id);
+  if (ids.length > 0) {
+    await deleteItems(ids);
   }
 };